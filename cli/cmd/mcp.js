@@ -1,10 +1,10 @@
-import { createMCPProject, deployMCP } from '../util/mcp.js';
+import { createMCPProject, deployMCP, runMCP } from '../util/mcp.js';
 import { log } from '../util/log.js';
 import inquirer from 'inquirer';
 import fs from 'fs';
 import path from 'path';
 
-export const mcpCommand = async (action, entryFile) => {
+export const mcpCommand = async (action, entryFile, options = {}) => {
   try {
     switch (action) {
       case 'init':
@@ -56,12 +56,18 @@ export const mcpCommand = async (action, entryFile) => {
         }
         break;
 
+      case 'run':
+        await runMCP(entryFile || 'index.ts', options);
+        break;
+
       default:
         log.info(`
 Available MCP actions:
 - init                  : Initialize a new MCP project
 - deploy [entry_script] : Deploy your MCP project to ConsolesAI cloud
                           (default entry script is index.ts)
+- run [entry_script]    : Run your MCP project locally over HTTP (--port, default 3000)
+                          or over stdio for desktop clients (--stdio)
         `);
     }
   } catch (error) {
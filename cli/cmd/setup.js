@@ -37,7 +37,7 @@ export const setupCommand = async () => {
 
   if (fs.existsSync(envPath)) {
     log.warn(".consoles.env file found at 📁 " + chalk.cyan(envPath));
-    const envVars = readEnvFile(envPath);
+    const envVars = await readEnvFile(envPath);
 
     if (envVars.TOKEN) {
       token = envVars.TOKEN;
@@ -38,10 +38,12 @@ program
 
 program
   .command('mcp [action]')
-  .description('Multi-Cloud Provider commands (init|deploy|delete)')
+  .description('Multi-Cloud Provider commands (init|deploy|run|delete)')
   .argument('[entry_script]', 'Entry script for deployment (defaults to index.ts)')
-  .action((action, entry_script) => {
-    mcpCommand(action, entry_script);
+  .option('--stdio', 'Serve over stdin and stdout instead of HTTP (run)')
+  .option('--port <port>', 'Port to serve HTTP on (run)', '3000')
+  .action((action, entry_script, options) => {
+    mcpCommand(action, entry_script, options);
   });
 
 // program
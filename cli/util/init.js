@@ -5,12 +5,13 @@ import chalk from "chalk";
 import readline from "readline";
 import figlet from "figlet";
 
-const rl = readline.createInterface({
-  input: process.stdin,
-  output: process.stdout,
-});
-
 export const initProject = async () => {
+  // Created on use, not on import: `mcp run --stdio` needs stdin to itself
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
   const text = figlet.textSync("consoles", {
     font: "Larry 3D",
     horizontalLayout: "fitted",
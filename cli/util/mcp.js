@@ -1,6 +1,6 @@
 import fs from 'fs';
 import path from 'path';
-import { fileURLToPath } from 'url';
+import { fileURLToPath, pathToFileURL } from 'url';
 import { execSync } from 'child_process';
 import chalk from 'chalk';
 import ora from 'ora';
@@ -573,4 +573,85 @@ export default {
     
     return { success: false, error: error.message };
   }
-} 
\ No newline at end of file
+} 
+// Find the MCP server an entry module defines: an exported `MCP` instance, or
+// template-style functions with a `.schema` attached, wrapped like the deployed worker does
+async function loadMCPServer(module, resolvedFile) {
+  const exported = [module.default, ...Object.values(module)]
+    .find(value => value && typeof value === 'object' && typeof value.serveStdio === 'function');
+  if (exported) {
+    return exported;
+  }
+
+  const tools = Object.entries(module)
+    .filter(([name, func]) => typeof func === 'function' && func.schema);
+  if (tools.length === 0) {
+    throw new Error(`${path.basename(resolvedFile)} exports no MCP server and no functions with a schema`);
+  }
+
+  // Loaded from the build: the CLI ships alongside it
+  const { MCP } = await import('../../dist/index.js');
+  const content = fs.readFileSync(resolvedFile, 'utf8');
+  const name = /^\/\/ name: (.+)$/m.exec(content)?.[1]?.trim() || path.basename(path.dirname(resolvedFile));
+  const mcp = new MCP({ name, version: '1.0.0' });
+
+  for (const [toolName, func] of tools) {
+    const schema = func.schema;
+    if (schema._def?.typeName !== 'ZodObject') {
+      // Tool arguments are always an object
+      console.error(chalk.yellow(`Skipping ${toolName}: its schema is not a z.object()`));
+      continue;
+    }
+    const keys = Object.keys(schema._def.shape());
+    mcp.tool(toolName, schema._def.shape(), async args => func(...keys.map(key => args[key])));
+  }
+  return mcp;
+}
+
+export async function runMCP(file = 'index.ts', options = {}) {
+  // In stdio mode stdout carries the protocol: anything printed goes to stderr instead
+  if (options.stdio) {
+    console.log = console.error;
+  }
+
+  const resolvedFile = path.resolve(process.cwd(), file);
+  if (!fs.existsSync(resolvedFile)) {
+    throw new Error(`Entry file ${resolvedFile} not found.`);
+  }
+
+  // Bundle next to the project so its own node_modules resolve
+  const outputDir = path.join(path.dirname(resolvedFile), 'node_modules', '.cache', 'consoles-ai');
+  const outfile = path.join(outputDir, `mcp-run-${process.pid}.mjs`);
+  await esbuild.build({
+    entryPoints: [resolvedFile],
+    bundle: true,
+    outfile,
+    format: 'esm',
+    platform: 'node',
+    target: 'node18',
+    packages: 'external',
+    sourcemap: 'inline',
+    loader: { '.ts': 'ts', '.js': 'js', '.mjs': 'js' },
+    logLevel: 'warning'
+  });
+
+  let module;
+  try {
+    module = await import(pathToFileURL(outfile).href);
+  } finally {
+    fs.rmSync(outfile, { force: true });
+  }
+  const mcp = await loadMCPServer(module, resolvedFile);
+
+  if (options.stdio) {
+    await mcp.serveStdio();
+    console.error(chalk.dim(`MCP server ${path.basename(resolvedFile)} running on stdio`));
+    return;
+  }
+
+  const port = Number(options.port ?? 3000);
+  const server = await mcp.listen(port);
+  console.log(chalk.green('MCP server running'));
+  console.log(chalk.blue('\nURL         ') + `http://localhost:${server.port}/mcp`);
+  console.log(chalk.blue('SSE         ') + `http://localhost:${server.port}/sse`);
+}
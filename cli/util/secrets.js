@@ -51,7 +51,7 @@ export const secretsCommand = async (action, namespace, key, value) => {
     }
     try {
         const envPath = path.join(os.homedir(), ".consoles.env");
-        const apiKey = fs.existsSync(envPath) ? await readEnvFile(envPath).API_KEY : null;
+        const apiKey = fs.existsSync(envPath) ? (await readEnvFile(envPath)).API_KEY : null;
     
         if (!apiKey)
             throw new Error("API key not found. Please run the setup command.");
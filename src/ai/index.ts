@@ -0,0 +1,125 @@
+import { tool } from 'ai';
+import type { Tool, ToolSet } from 'ai';
+import { z } from 'zod';
+import { describeExtractTool, extractToolInput, extractToolShape } from '../extract/tool';
+import type { ExtractToolArgs, ExtractToolOptions } from '../extract/tool';
+import { toJsonSchema } from '../extract/schema';
+import type { MCP } from '../mcp';
+import type { ConsolesSDK } from '../types';
+
+export type { ExtractToolOptions };
+
+/**
+ * Options for `mcpTools()`
+ */
+export interface MCPToolsOptions {
+  /** Only include these tools (default: every registered tool) */
+  include?: string[];
+  /** Prefix added to every tool name, e.g. `docs_` */
+  prefix?: string;
+}
+
+type ContentPart = { type: string; text?: string; data?: string; mimeType?: string; [key: string]: unknown };
+
+/**
+ * Expose Consoles Extract as an AI SDK tool with a preconfigured schema and prompt.
+ * The model passes exactly one of `url`, `text` or a base64 `file`, plus optional
+ * extra `instructions`, and gets the extracted result back. Extraction failures
+ * are thrown, so the AI SDK reports them as tool errors.
+ * @param consoles Client the extractions run with
+ * @param options Schema, prompt and an optional description override
+ * @returns A tool for `generateText`/`streamText`
+ *
+ * @example
+ * ```typescript
+ * import { extractTool } from 'consoles-ai/ai';
+ *
+ * const { text } = await generateText({
+ *   model,
+ *   tools: {
+ *     extract_invoice: extractTool(consoles, {
+ *       schema: z.object({ vendor: z.string(), total: z.number() }),
+ *       prompt: 'Extract the vendor and the invoice total'
+ *     })
+ *   },
+ *   prompt: 'What is the total of https://example.com/invoice.pdf?'
+ * });
+ * ```
+ */
+export function extractTool(consoles: ConsolesSDK, options: Omit<ExtractToolOptions, 'apiKey'> = {}): Tool {
+  const parameters: z.ZodType<ExtractToolArgs> = z.object(extractToolShape);
+  return tool({
+    description: options.description
+      ?? describeExtractTool(options.prompt, options.schema ? toJsonSchema(options.schema) : undefined),
+    parameters,
+    execute: async (args: ExtractToolArgs, { abortSignal }) => {
+      const response = await consoles.extract(extractToolInput(args, options), { signal: abortSignal });
+      return response.result;
+    }
+  });
+}
+
+/**
+ * Turn the tools registered on an MCP instance into a `tools` record for the
+ * AI SDK. Calls run in this process against the same handlers a deployed
+ * server uses, with the same argument validation. Tool errors are returned to
+ * the model as `{ error }` so it can correct the call.
+ * @param mcp MCP instance whose tools to expose
+ * @param options Tools to include and a name prefix
+ * @returns Tools keyed by name
+ *
+ * @example
+ * ```typescript
+ * import { mcpTools } from 'consoles-ai/ai';
+ *
+ * const { text } = await generateText({
+ *   model,
+ *   tools: mcpTools(mcp),
+ *   maxSteps: 5,
+ *   prompt: 'Summarize the open issues'
+ * });
+ * ```
+ */
+export function mcpTools(mcp: MCP, options: MCPToolsOptions = {}): ToolSet {
+  const tools: ToolSet = {};
+  for (const info of mcp.listTools()) {
+    if (options.include && !options.include.includes(info.name)) {
+      continue;
+    }
+    tools[`${options.prefix ?? ''}${info.name}`] = tool({
+      description: info.description,
+      parameters: info.inputSchema ?? z.object({}),
+      // Returns the structured content, the text, or the content parts when they include images
+      execute: async (args: Record<string, unknown>, { abortSignal }) => {
+        const result = await mcp.callTool(info.name, args, { signal: abortSignal });
+        const content = (result.content ?? []) as ContentPart[];
+        const text = content.filter(part => part.type === 'text').map(part => part.text).join('\n');
+        if (result.isError) {
+          return { error: text || 'Tool call failed' };
+        }
+        if (result.structuredContent) {
+          return result.structuredContent;
+        }
+        return content.some(part => part.type === 'image') ? content : text;
+      },
+      experimental_toToolResultContent: (output: unknown) => Array.isArray(output)
+        ? (output as ContentPart[]).flatMap(part => toResultContent(part))
+        : [{ type: 'text', text: typeof output === 'string' ? output : JSON.stringify(output) }]
+    });
+  }
+  return tools;
+}
+
+/**
+ * Map an MCP content part to the AI SDK's tool result content. Parts the
+ * AI SDK cannot carry are sent as JSON text.
+ */
+function toResultContent(part: ContentPart): Array<{ type: 'text'; text: string } | { type: 'image'; data: string; mimeType?: string }> {
+  if (part.type === 'text') {
+    return [{ type: 'text', text: part.text ?? '' }];
+  }
+  if (part.type === 'image' && part.data) {
+    return [{ type: 'image', data: part.data, mimeType: part.mimeType }];
+  }
+  return [{ type: 'text', text: JSON.stringify(part) }];
+}
@@ -0,0 +1,18 @@
+import { ConsolesError } from '../core/errors';
+import type { ConsolesErrorOptions } from '../core/errors';
+
+export type BrowserErrorCode = 'SESSION_CLOSED';
+
+/**
+ * A browser session could not be used. Failed page actions, such as a
+ * selector that matches nothing, are reported with the shared
+ * `ConsolesError` subclasses.
+ */
+export class BrowserError extends ConsolesError {
+  declare readonly code: BrowserErrorCode;
+
+  constructor(message: string, code: BrowserErrorCode, options: ConsolesErrorOptions = {}) {
+    super(message, code, options);
+    this.name = 'BrowserError';
+  }
+}
@@ -0,0 +1,225 @@
+import type { z } from 'zod';
+import { readJson, send } from '../core/client';
+import type { ClientConfig } from '../core/client';
+import { toBase64 } from '../extract/input';
+import type { ExtractResponse } from '../extract/types';
+import type { BrowserOptions, ConsolesSDK, RequestOptions } from '../types';
+import { BrowserError } from './errors';
+import type {
+  BrowserExtractOptions,
+  GotoOptions,
+  PageContent,
+  PageInfo,
+  ScreenshotOptions,
+  TypeOptions
+} from './types';
+
+export const BROWSERS_PATH = '/browsers';
+
+/**
+ * A remote browser with one open page.
+ *
+ * Every action is a JSON request below `/browsers/:id`, so any server
+ * implementing the routes below can stand in for the cloud (see
+ * `MockBrowserServer` in `consoles-ai/testing`):
+ *
+ * | Action        | Request                         | Body                                  | Response                 |
+ * |---------------|---------------------------------|---------------------------------------|--------------------------|
+ * | create        | `POST /browsers`                | `BrowserOptions`                      | `{ id }`                 |
+ * | `goto`        | `POST /browsers/:id/goto`       | `{ url, waitUntil?, timeoutMs? }`     | `PageInfo`               |
+ * | `content`     | `GET /browsers/:id/content`     |                                       | `PageContent`            |
+ * | `screenshot`  | `POST /browsers/:id/screenshot` | `ScreenshotOptions`                   | image bytes              |
+ * | `click`       | `POST /browsers/:id/click`      | `{ selector }`                        | `{}`                     |
+ * | `type`        | `POST /browsers/:id/type`       | `{ selector, text, delayMs? }`        | `{}`                     |
+ * | `evaluate`    | `POST /browsers/:id/evaluate`   | `{ expression }`                      | `{ result }`             |
+ * | `close`       | `DELETE /browsers/:id`          |                                       | empty                    |
+ *
+ * Failures use the regular error body: a selector that matches nothing is a
+ * 404 `NOT_FOUND`, a script that throws is a 422 `INVALID_REQUEST`.
+ *
+ * @example
+ * ```typescript
+ * const browser = await consoles.browser({ headless: true });
+ * try {
+ *   await browser.goto('https://news.ycombinator.com');
+ *   const { result } = await browser.extract(z.object({
+ *     stories: z.array(z.object({ title: z.string(), points: z.number() }))
+ *   }));
+ * } finally {
+ *   await browser.close();
+ * }
+ * ```
+ */
+export class BrowserSession {
+  readonly id: string;
+  #config: () => Promise<ClientConfig>;
+  #client: ConsolesSDK;
+  #closed = false;
+
+  constructor(config: () => Promise<ClientConfig>, client: ConsolesSDK, id: string) {
+    this.#config = config;
+    this.#client = client;
+    this.id = id;
+  }
+
+  /**
+   * Navigate to a URL. Resolves with the final URL after redirects; HTTP error
+   * statuses are reported in `status`, not thrown.
+   * @param url - Page to open
+   * @param options - Navigation milestone to wait for and a timeout
+   */
+  async goto(url: string, options: GotoOptions = {}, requestOptions: RequestOptions = {}): Promise<PageInfo> {
+    return this.#call<PageInfo>('POST', '/goto', { url, ...options }, requestOptions);
+  }
+
+  /**
+   * Read the current page's URL, title and serialized DOM
+   */
+  async content(requestOptions: RequestOptions = {}): Promise<PageContent> {
+    return this.#call<PageContent>('GET', '/content', undefined, requestOptions);
+  }
+
+  /**
+   * Capture the page, or one element of it
+   * @param options - Full page, image format and element selector
+   * @returns The encoded image
+   */
+  async screenshot(options: ScreenshotOptions = {}, requestOptions: RequestOptions = {}): Promise<Uint8Array> {
+    const response = await this.#send('POST', '/screenshot', options, requestOptions);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  /**
+   * Click the first element matching a CSS selector
+   *
+   * @throws {InvalidRequestError} With code `NOT_FOUND` when nothing matches
+   */
+  async click(selector: string, requestOptions: RequestOptions = {}): Promise<void> {
+    // Page actions are not idempotent: never resend one the browser may have performed
+    await this.#call('POST', '/click', { selector }, { retry: false, ...requestOptions });
+  }
+
+  /**
+   * Focus the first element matching a CSS selector and type text into it
+   *
+   * @throws {InvalidRequestError} With code `NOT_FOUND` when nothing matches
+   */
+  async type(selector: string, text: string, options: TypeOptions = {}, requestOptions: RequestOptions = {}): Promise<void> {
+    await this.#call('POST', '/type', { selector, text, ...options }, { retry: false, ...requestOptions });
+  }
+
+  /**
+   * Evaluate JavaScript in the page and return its JSON-serializable result.
+   * Functions are serialized with their arguments, so they cannot close over
+   * local variables.
+   * @param script - An expression, or a function to call in the page
+   * @param args - JSON-serializable arguments for the function
+   * @param requestOptions - Signal and timeout for the call
+   *
+   * @example
+   * ```typescript
+   * const title = await browser.evaluate<string>('document.title');
+   * const count = await browser.evaluate(selector => document.querySelectorAll(selector).length, ['a']);
+   * ```
+   *
+   * @throws {InvalidRequestError} When the script throws
+   */
+  async evaluate<T = unknown>(
+    script: string | ((...args: any[]) => T | Promise<T>),
+    args: unknown[] = [],
+    requestOptions: RequestOptions = {}
+  ): Promise<T> {
+    const expression = typeof script === 'function'
+      ? `(${script.toString()})(...${JSON.stringify(args)})`
+      : script;
+    const { result } = await this.#call<{ result: T }>('POST', '/evaluate', { expression }, { retry: false, ...requestOptions });
+    return result;
+  }
+
+  /**
+   * Extract structured data from the current page with Consoles Extract
+   * @param schema - Zod or JSON Schema for the result
+   * @param options - Prompt, and whether the DOM is sent as text or as an HTML file
+   * @returns The extraction, typed by a Zod schema
+   */
+  async extract<T extends z.ZodTypeAny>(
+    schema: T,
+    options?: BrowserExtractOptions,
+    requestOptions?: RequestOptions
+  ): Promise<ExtractResponse<z.infer<T>>>;
+  async extract(schema: Record<string, any>, options?: BrowserExtractOptions, requestOptions?: RequestOptions): Promise<ExtractResponse>;
+  async extract(
+    schema: z.ZodTypeAny | Record<string, any>,
+    options: BrowserExtractOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ExtractResponse> {
+    const { html } = await this.content(requestOptions);
+    if (options.as === 'file') {
+      return this.#client.extract({
+        type: 'file',
+        content: { data: toBase64(new TextEncoder().encode(html)), mimeType: 'text/html' },
+        schema,
+        prompt: options.prompt
+      }, requestOptions);
+    }
+    return this.#client.extract({ type: 'text', content: html, schema, prompt: options.prompt }, requestOptions);
+  }
+
+  /**
+   * End the session and release the browser. Closing twice is a no-op; when
+   * the request fails the session stays open and `close()` can be retried.
+   */
+  async close(requestOptions: RequestOptions = {}): Promise<void> {
+    if (this.#closed) {
+      return;
+    }
+    await this.#send('DELETE', '', undefined, requestOptions);
+    this.#closed = true;
+  }
+
+  get closed(): boolean {
+    return this.#closed;
+  }
+
+  async #call<T = unknown>(method: string, action: string, body?: unknown, requestOptions: RequestOptions = {}): Promise<T> {
+    return readJson<T>(await this.#send(method, action, body, requestOptions));
+  }
+
+  async #send(method: string, action: string, body: unknown, requestOptions: RequestOptions): Promise<Response> {
+    if (this.#closed && method !== 'DELETE') {
+      throw new BrowserError(`Browser session ${this.id} is closed`, 'SESSION_CLOSED');
+    }
+    return send(await this.#config(), `${BROWSERS_PATH}/${encodeURIComponent(this.id)}${action}`, {
+      method,
+      headers: body === undefined
+        ? { 'Accept': 'application/json' }
+        : { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    }, requestOptions);
+  }
+}
+
+/**
+ * Start a browser session
+ */
+export async function createBrowserSession(
+  config: () => Promise<ClientConfig>,
+  client: ConsolesSDK,
+  options: BrowserOptions = {},
+  requestOptions: RequestOptions = {}
+): Promise<BrowserSession> {
+  const response = await send(await config(), BROWSERS_PATH, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    },
+    body: JSON.stringify(options)
+  }, requestOptions);
+  const { id } = await readJson<{ id: string }>(response);
+  return new BrowserSession(config, client, id);
+}
+
+export { BrowserError } from './errors';
+export type { BrowserErrorCode } from './errors';
+export * from './types';
@@ -0,0 +1,53 @@
+/** When `goto()` considers navigation finished */
+export type WaitUntil = 'load' | 'domcontentloaded' | 'networkidle';
+
+/** Options for `session.goto()` */
+export interface GotoOptions {
+  /** Navigation milestone to wait for (default: `load`) */
+  waitUntil?: WaitUntil;
+  /** Give up on the navigation after this many milliseconds */
+  timeoutMs?: number;
+}
+
+/** The page a session is on after navigating */
+export interface PageInfo {
+  url: string;
+  /** HTTP status of the main document */
+  status: number;
+  title: string;
+}
+
+/** The current page's DOM, as returned by `session.content()` */
+export interface PageContent {
+  url: string;
+  title: string;
+  /** Serialized DOM of the page, including changes made by scripts */
+  html: string;
+}
+
+/** Options for `session.screenshot()` */
+export interface ScreenshotOptions {
+  /** Capture the whole scrollable page instead of the viewport */
+  fullPage?: boolean;
+  /** Image format (default: `png`) */
+  format?: 'png' | 'jpeg';
+  /** Capture only the first element matching this CSS selector */
+  selector?: string;
+}
+
+/** Options for `session.type()` */
+export interface TypeOptions {
+  /** Delay between key presses in milliseconds */
+  delayMs?: number;
+}
+
+/** Options for `session.extract()` */
+export interface BrowserExtractOptions {
+  /** Instructions for the extraction */
+  prompt?: string;
+  /**
+   * How the page is sent to Extract: `text` (default) sends the serialized DOM as
+   * text input, `file` uploads it as a `text/html` file
+   */
+  as?: 'text' | 'file';
+}
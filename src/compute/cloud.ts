@@ -0,0 +1,117 @@
+import { readJson, send } from '../core/client';
+import type { ClientConfig } from '../core/client';
+import { NetworkError, errorFromPayload } from '../core/errors';
+import { readServerSentEvents } from '../extract/stream';
+import type { RequestOptions, SandboxOptions, VMOptions } from '../types';
+import type { ComputeBackend, ComputeEvent, ComputeKind, ExecOptions } from './types';
+
+const COLLECTIONS: Record<ComputeKind, string> = {
+  sandbox: '/sandboxes',
+  vm: '/vms'
+};
+
+/**
+ * Compute backend for the Consoles API.
+ *
+ * Instances live under `/sandboxes` or `/vms`. Commands are started with
+ * `POST /<collection>/:id/exec` and answered as Server-Sent Events: `stdout`
+ * and `stderr` events carrying `{ data }`, then one `exit` event with
+ * `{ exitCode, durationMs }` (or an `error` event shaped like a regular error
+ * body). Files are read and written as raw bytes at
+ * `/<collection>/:id/files?path=`.
+ */
+export class CloudComputeBackend implements ComputeBackend {
+  #config: () => Promise<ClientConfig>;
+  #kinds = new Map<string, ComputeKind>();
+
+  constructor(config: () => Promise<ClientConfig>) {
+    this.#config = config;
+  }
+
+  async create(kind: ComputeKind, options: SandboxOptions | VMOptions, requestOptions: RequestOptions = {}): Promise<string> {
+    const { backend: _backend, ...settings } = options;
+    // Provisioning is not idempotent: a resent request could start a second billed instance
+    const response = await send(await this.#config(), COLLECTIONS[kind], {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      body: JSON.stringify(settings)
+    }, { ...requestOptions, retry: false });
+    const { id } = await readJson<{ id: string }>(response);
+    this.#kinds.set(id, kind);
+    return id;
+  }
+
+  async *exec(id: string, command: string, options: ExecOptions = {}): AsyncGenerator<ComputeEvent> {
+    // Commands are not idempotent: never resend one the API may have started
+    const response = await send(await this.#config(), `${this.#path(id)}/exec`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream'
+      },
+      body: JSON.stringify({
+        command,
+        cwd: options.cwd,
+        env: options.env,
+        stdin: options.stdin,
+        timeout_ms: options.timeoutMs
+      })
+    }, { signal: options.signal, tag: options.tag, retry: false });
+
+    const requestId = response.headers.get('x-request-id') ?? undefined;
+    for await (const event of readServerSentEvents(response.body!)) {
+      switch (event.event) {
+        case 'stdout':
+        case 'stderr':
+          yield { type: event.event, data: JSON.parse(event.data).data ?? '' };
+          break;
+        case 'exit': {
+          const { exitCode, durationMs } = JSON.parse(event.data);
+          yield { type: 'exit', exitCode, durationMs };
+          return;
+        }
+        case 'error': {
+          const errorJson = JSON.parse(event.data);
+          throw errorFromPayload(errorJson.status || response.status, errorJson, { requestId });
+        }
+      }
+    }
+
+    throw new NetworkError('Command output ended before the command exited.', 'STREAM_INTERRUPTED', {
+      status: response.status,
+      requestId
+    });
+  }
+
+  async writeFile(id: string, path: string, content: Uint8Array, requestOptions: RequestOptions = {}): Promise<void> {
+    await send(await this.#config(), this.#filePath(id, path), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: content as BodyInit
+    }, requestOptions);
+  }
+
+  async readFile(id: string, path: string, requestOptions: RequestOptions = {}): Promise<Uint8Array> {
+    const response = await send(await this.#config(), this.#filePath(id, path), {
+      method: 'GET',
+      headers: { 'Accept': 'application/octet-stream' }
+    }, requestOptions);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  async close(id: string, requestOptions: RequestOptions = {}): Promise<void> {
+    await send(await this.#config(), this.#path(id), { method: 'DELETE' }, requestOptions);
+    this.#kinds.delete(id);
+  }
+
+  #path(id: string): string {
+    return `${COLLECTIONS[this.#kinds.get(id) ?? 'sandbox']}/${encodeURIComponent(id)}`;
+  }
+
+  #filePath(id: string, path: string): string {
+    return `${this.#path(id)}/files?path=${encodeURIComponent(path)}`;
+  }
+}
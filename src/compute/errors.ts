@@ -0,0 +1,18 @@
+import { ConsolesError } from '../core/errors';
+import type { ConsolesErrorOptions } from '../core/errors';
+
+export type ComputeErrorCode = 'SESSION_CLOSED' | 'SETUP_FAILED' | 'EXEC_FAILED';
+
+/**
+ * A sandbox or VM could not be used: it was closed, its packages failed to
+ * install, or a command could not be started. API failures are reported with
+ * the shared `ConsolesError` subclasses.
+ */
+export class ComputeError extends ConsolesError {
+  declare readonly code: ComputeErrorCode;
+
+  constructor(message: string, code: ComputeErrorCode, options: ConsolesErrorOptions = {}) {
+    super(message, code, options);
+    this.name = 'ComputeError';
+  }
+}
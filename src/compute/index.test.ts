@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { APIError } from '../core/errors';
+import { Sandbox } from './index';
+import type { ComputeBackend } from './types';
+
+/** A backend whose first `close()` fails, as a DELETE answered with a 5xx would */
+function flakyBackend() {
+  const closes: string[] = [];
+  const backend: ComputeBackend = {
+    create: async () => 'sbx_1',
+    exec: async function* () {
+      yield { type: 'exit', exitCode: 0, durationMs: 0 };
+    },
+    writeFile: async () => {},
+    readFile: async () => new Uint8Array(),
+    close: async id => {
+      closes.push(id);
+      if (closes.length === 1) {
+        throw new APIError('Service unavailable', 'SERVER_ERROR', { status: 503 });
+      }
+    }
+  };
+  return { backend, closes };
+}
+
+test('a sandbox stays open when closing it fails, and can be closed again', async () => {
+  const { backend, closes } = flakyBackend();
+  const sandbox = new Sandbox(backend, 'sbx_1', 'sandbox', 'python');
+
+  await assert.rejects(sandbox.close(), APIError);
+  assert.equal(sandbox.closed, false);
+
+  await sandbox.close();
+  assert.equal(sandbox.closed, true);
+  assert.deepEqual(closes, ['sbx_1', 'sbx_1']);
+
+  // Closing a closed sandbox is a no-op
+  await sandbox.close();
+  assert.equal(closes.length, 2);
+});
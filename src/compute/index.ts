@@ -0,0 +1,203 @@
+import { InvalidRequestError } from '../core/errors';
+import type { RequestOptions, SandboxOptions, VMOptions } from '../types';
+import { ComputeError } from './errors';
+import type { ComputeBackend, ComputeEvent, ComputeKind, ExecOptions, ExecResult, RunOptions } from './types';
+
+/**
+ * How `run()` executes code in each language: the interpreter command and the
+ * extension of the file the code is written to
+ */
+const LANGUAGES: Record<string, { command: string; extension: string }> = {
+  python: { command: 'python3', extension: '.py' },
+  javascript: { command: 'node', extension: '.js' },
+  typescript: { command: 'npx --yes tsx', extension: '.ts' },
+  bash: { command: 'bash', extension: '.sh' },
+  ruby: { command: 'ruby', extension: '.rb' }
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  py: 'python',
+  python3: 'python',
+  js: 'javascript',
+  node: 'javascript',
+  ts: 'typescript',
+  sh: 'bash',
+  shell: 'bash'
+};
+
+/**
+ * A running sandbox or VM. Commands run in the instance's home directory
+ * unless `cwd` is given; files are addressed relative to it.
+ *
+ * @example
+ * ```typescript
+ * const sandbox = await consoles.sandbox({ language: 'python', pip: ['pandas'] });
+ * try {
+ *   await sandbox.uploadFile('data.csv', csv);
+ *   const { stdout } = await sandbox.run('import pandas as pd; print(pd.read_csv("data.csv").describe())');
+ *   for await (const event of sandbox.execStream('make test')) {
+ *     if (event.type !== 'exit') process.stdout.write(event.data);
+ *   }
+ * } finally {
+ *   await sandbox.close();
+ * }
+ * ```
+ */
+export class Sandbox {
+  readonly id: string;
+  readonly kind: ComputeKind;
+  #backend: ComputeBackend;
+  #language: string;
+  #closed = false;
+  #runs = 0;
+
+  constructor(backend: ComputeBackend, id: string, kind: ComputeKind, language: string) {
+    this.#backend = backend;
+    this.id = id;
+    this.kind = kind;
+    this.#language = language;
+  }
+
+  /**
+   * Run a shell command and wait for it to exit. A non-zero exit code is
+   * reported in the result, not thrown.
+   * @param command - Shell command line
+   * @param options - Working directory, environment, stdin, timeout and abort signal
+   * @returns Collected stdout and stderr, exit code and duration
+   *
+   * @throws {TimeoutError} When the command outlives `options.timeoutMs`
+   * @throws {ComputeError} With code `SESSION_CLOSED` after `close()`
+   */
+  async exec(command: string, options: ExecOptions = {}): Promise<ExecResult> {
+    return collect(this.execStream(command, options));
+  }
+
+  /**
+   * Run a shell command, yielding its output as it is produced
+   * @param command - Shell command line
+   * @param options - Working directory, environment, stdin, timeout and abort signal
+   * @returns `stdout` and `stderr` events, then one `exit` event
+   */
+  async *execStream(command: string, options: ExecOptions = {}): AsyncGenerator<ComputeEvent> {
+    this.#assertOpen();
+    yield* this.#backend.exec(this.id, command, options);
+  }
+
+  /**
+   * Run a snippet of code and wait for it to exit
+   * @param code - Source code
+   * @param options - `language` (default: the sandbox's language) and the `exec()` options
+   * @returns Collected stdout and stderr, exit code and duration
+   *
+   * @throws {InvalidRequestError} When the language is not supported
+   */
+  async run(code: string, options: RunOptions = {}): Promise<ExecResult> {
+    return collect(this.runStream(code, options));
+  }
+
+  /**
+   * Run a snippet of code, yielding its output as it is produced
+   * @param code - Source code
+   * @param options - `language` (default: the sandbox's language) and the `exec()` options
+   * @returns `stdout` and `stderr` events, then one `exit` event
+   */
+  async *runStream(code: string, options: RunOptions = {}): AsyncGenerator<ComputeEvent> {
+    const { language = this.#language, ...execOptions } = options;
+    const runtime = LANGUAGES[LANGUAGE_ALIASES[language.toLowerCase()] ?? language.toLowerCase()];
+    if (!runtime) {
+      throw new InvalidRequestError(
+        `Unsupported language: ${language}. Supported: ${Object.keys(LANGUAGES).join(', ')}`,
+        'INVALID_REQUEST'
+      );
+    }
+
+    // Code is run from a file so it can be any length and read stdin
+    const path = `.consoles/run-${++this.#runs}${runtime.extension}`;
+    await this.uploadFile(path, code, { signal: options.signal });
+    yield* this.execStream(`${runtime.command} ${path}`, execOptions);
+  }
+
+  /**
+   * Write a file into the instance, creating parent directories
+   * @param path - Destination path
+   * @param content - Text (written as UTF-8) or bytes
+   * @param requestOptions - Abort signal and retry settings
+   */
+  async uploadFile(path: string, content: string | Uint8Array | ArrayBuffer, requestOptions: RequestOptions = {}): Promise<void> {
+    this.#assertOpen();
+    const bytes = typeof content === 'string'
+      ? new TextEncoder().encode(content)
+      : content instanceof Uint8Array ? content : new Uint8Array(content);
+    await this.#backend.writeFile(this.id, path, bytes, requestOptions);
+  }
+
+  /**
+   * Read a file from the instance
+   * @param path - File path
+   * @param requestOptions - Abort signal and retry settings
+   * @returns The file's bytes; decode text with `new TextDecoder().decode(bytes)`
+   *
+   * @throws {InvalidRequestError} With code `NOT_FOUND` when the file does not exist
+   */
+  async downloadFile(path: string, requestOptions: RequestOptions = {}): Promise<Uint8Array> {
+    this.#assertOpen();
+    return this.#backend.readFile(this.id, path, requestOptions);
+  }
+
+  /**
+   * Stop the instance, killing running commands and discarding its files.
+   * Closing twice is a no-op; when stopping fails the instance stays open and
+   * `close()` can be retried.
+   */
+  async close(requestOptions: RequestOptions = {}): Promise<void> {
+    if (this.#closed) {
+      return;
+    }
+    await this.#backend.close(this.id, requestOptions);
+    this.#closed = true;
+  }
+
+  get closed(): boolean {
+    return this.#closed;
+  }
+
+  #assertOpen() {
+    if (this.#closed) {
+      throw new ComputeError(`The ${this.kind} ${this.id} is closed`, 'SESSION_CLOSED');
+    }
+  }
+}
+
+/**
+ * Provision an instance on a backend and wrap it in a handle
+ */
+export async function createInstance(
+  backend: ComputeBackend,
+  kind: ComputeKind,
+  options: SandboxOptions | VMOptions,
+  requestOptions: RequestOptions = {}
+): Promise<Sandbox> {
+  const id = await backend.create(kind, options, requestOptions);
+  const language = 'language' in options && options.language ? options.language : kind === 'vm' ? 'bash' : 'python';
+  return new Sandbox(backend, id, kind, language);
+}
+
+async function collect(events: AsyncIterable<ComputeEvent>): Promise<ExecResult> {
+  const result: ExecResult = { stdout: '', stderr: '', exitCode: 0, durationMs: 0 };
+  for await (const event of events) {
+    if (event.type === 'exit') {
+      result.exitCode = event.exitCode;
+      result.durationMs = event.durationMs;
+    } else {
+      result[event.type] += event.data;
+    }
+  }
+  return result;
+}
+
+export { CloudComputeBackend } from './cloud';
+export { ComputeError } from './errors';
+export type { ComputeErrorCode } from './errors';
+export { LocalComputeBackend } from './local';
+export type { LocalComputeOptions } from './local';
+export * from './types';
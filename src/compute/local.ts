@@ -0,0 +1,220 @@
+import type { ChildProcess } from 'node:child_process';
+import { InvalidRequestError, TimeoutError } from '../core/errors';
+import type { SandboxOptions, VMOptions } from '../types';
+import { ComputeError } from './errors';
+import type { ComputeBackend, ComputeEvent, ComputeKind, ExecOptions } from './types';
+
+interface LocalInstance {
+  root: string;
+  env: Record<string, string>;
+  processes: Set<ChildProcess>;
+}
+
+export interface LocalComputeOptions {
+  /** Directory the instances' home directories are created in (default: the OS temp directory) */
+  directory?: string;
+}
+
+/**
+ * Stand-in compute backend that runs each instance in a temporary directory on
+ * this machine and each command in a child process, without Docker or cloud
+ * access. `pip` and `npm` packages are installed into the instance directory;
+ * `cpu`, `memory`, `gpu`, `image`, `apt` and `mounts` are ignored. Paths are
+ * relative to the instance directory and may not leave it.
+ */
+export class LocalComputeBackend implements ComputeBackend {
+  #directory?: string;
+  #instances = new Map<string, LocalInstance>();
+  #nextId = 1;
+
+  constructor(options: LocalComputeOptions = {}) {
+    this.#directory = options.directory;
+  }
+
+  async create(kind: ComputeKind, options: SandboxOptions | VMOptions): Promise<string> {
+    const [{ mkdtemp, rm }, os, path] = await Promise.all([
+      import('node:fs/promises'),
+      import('node:os'),
+      import('node:path')
+    ]);
+    const root = await mkdtemp(path.join(this.#directory ?? os.tmpdir(), `consoles-${kind}-`));
+    const id = `local_${kind}_${this.#nextId++}`;
+    const instance: LocalInstance = { root, env: { HOME: root }, processes: new Set() };
+    this.#instances.set(id, instance);
+
+    try {
+      if (options.pip?.length) {
+        const target = path.join(root, '.pip');
+        await this.#setup(id, `python3 -m pip install --quiet --target ${quote(target)} ${options.pip.map(quote).join(' ')}`);
+        instance.env.PYTHONPATH = target;
+      }
+      if ('npm' in options && options.npm?.length) {
+        await this.#setup(id, `npm install --silent --no-save --prefix ${quote(root)} ${options.npm.map(quote).join(' ')}`);
+      }
+    } catch (error) {
+      this.#instances.delete(id);
+      await rm(root, { recursive: true, force: true });
+      throw error;
+    }
+    return id;
+  }
+
+  async *exec(id: string, command: string, options: ExecOptions = {}): AsyncGenerator<ComputeEvent> {
+    const instance = this.#instance(id);
+    const [{ spawn }, os] = await Promise.all([import('node:child_process'), import('node:os')]);
+    const cwd = await resolvePath(instance.root, options.cwd ?? '.');
+    options.signal?.throwIfAborted();
+
+    const startTime = Date.now();
+    // Own process group, so killing the command also kills what the shell started
+    const child = spawn(command, {
+      shell: true,
+      cwd,
+      env: { ...process.env, ...instance.env, ...options.env },
+      detached: process.platform !== 'win32'
+    });
+    instance.processes.add(child);
+
+    const events: ComputeEvent[] = [];
+    let failure: unknown;
+    let wake: (() => void) | undefined;
+    const push = (event: ComputeEvent) => {
+      events.push(event);
+      wake?.();
+    };
+    const fail = (error: unknown) => {
+      failure ??= error;
+      kill(child);
+      wake?.();
+    };
+
+    child.stdout!.setEncoding('utf8').on('data', (data: string) => push({ type: 'stdout', data }));
+    child.stderr!.setEncoding('utf8').on('data', (data: string) => push({ type: 'stderr', data }));
+    child.on('error', error => fail(new ComputeError(`Could not run command: ${error.message}`, 'EXEC_FAILED', { cause: error })));
+    child.on('close', (code, signal) => {
+      instance.processes.delete(child);
+      const exitCode = code ?? 128 + (signal ? os.constants.signals[signal] ?? 0 : 0);
+      push({ type: 'exit', exitCode, durationMs: Date.now() - startTime });
+    });
+    // Commands that read stdin see end-of-file rather than waiting forever
+    child.stdin!.on('error', () => {});
+    child.stdin!.end(options.stdin ?? '');
+
+    const onAbort = () => fail(options.signal!.reason);
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = options.timeoutMs !== undefined
+      ? setTimeout(() => fail(new TimeoutError(`Command timed out after ${options.timeoutMs}ms`, 'TIMEOUT', { status: 0 })), options.timeoutMs)
+      : undefined;
+
+    try {
+      while (true) {
+        if (failure !== undefined) {
+          throw failure;
+        }
+        const event = events.shift();
+        if (event) {
+          yield event;
+          if (event.type === 'exit') {
+            return;
+          }
+          continue;
+        }
+        await new Promise<void>(resolve => wake = resolve);
+        wake = undefined;
+      }
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      // The caller stopped reading early
+      if (child.exitCode === null && child.signalCode === null) {
+        kill(child);
+      }
+    }
+  }
+
+  async writeFile(id: string, path: string, content: Uint8Array): Promise<void> {
+    const target = await resolvePath(this.#instance(id).root, path);
+    const [{ mkdir, writeFile }, { dirname }] = await Promise.all([import('node:fs/promises'), import('node:path')]);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, content);
+  }
+
+  async readFile(id: string, path: string): Promise<Uint8Array> {
+    const target = await resolvePath(this.#instance(id).root, path);
+    const { readFile } = await import('node:fs/promises');
+    try {
+      return new Uint8Array(await readFile(target));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new InvalidRequestError(`File not found: ${path}`, 'NOT_FOUND', { status: 404, cause: error });
+      }
+      throw error;
+    }
+  }
+
+  async close(id: string): Promise<void> {
+    const instance = this.#instances.get(id);
+    if (!instance) {
+      return;
+    }
+    this.#instances.delete(id);
+    instance.processes.forEach(kill);
+    const { rm } = await import('node:fs/promises');
+    await rm(instance.root, { recursive: true, force: true });
+  }
+
+  #instance(id: string): LocalInstance {
+    const instance = this.#instances.get(id);
+    if (!instance) {
+      throw new ComputeError(`Instance ${id} is closed`, 'SESSION_CLOSED');
+    }
+    return instance;
+  }
+
+  /**
+   * Run a setup command, failing creation with its output when it fails
+   */
+  async #setup(id: string, command: string) {
+    let output = '';
+    for await (const event of this.exec(id, command)) {
+      if (event.type === 'exit' && event.exitCode !== 0) {
+        throw new ComputeError(`Package installation failed: ${output.trim()}`, 'SETUP_FAILED', {
+          details: { command, exitCode: event.exitCode, output }
+        });
+      }
+      if (event.type !== 'exit') {
+        output += event.data;
+      }
+    }
+  }
+}
+
+/**
+ * Resolve a path inside an instance directory
+ * @throws {InvalidRequestError} When the path leaves the directory
+ */
+async function resolvePath(root: string, path: string): Promise<string> {
+  const { relative, resolve, isAbsolute } = await import('node:path');
+  const resolved = resolve(root, path);
+  const inside = relative(root, resolved);
+  if (inside.startsWith('..') || isAbsolute(inside)) {
+    throw new InvalidRequestError(`Path ${path} is outside the instance directory`, 'INVALID_REQUEST');
+  }
+  return resolved;
+}
+
+function kill(child: ChildProcess) {
+  try {
+    if (child.pid !== undefined && process.platform !== 'win32') {
+      process.kill(-child.pid, 'SIGKILL');
+    } else {
+      child.kill('SIGKILL');
+    }
+  } catch {
+    // Already exited
+  }
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
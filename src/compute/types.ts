@@ -0,0 +1,62 @@
+import type { RequestOptions, SandboxOptions, VMOptions } from '../types';
+
+export type ComputeKind = 'sandbox' | 'vm';
+
+/**
+ * Output of a command, as streamed by `execStream()` and `runStream()`.
+ * - `stdout` / `stderr`: a chunk of output, decoded as UTF-8
+ * - `exit`: the command finished; always the last event
+ */
+export type ComputeEvent =
+  | { type: 'stdout'; data: string }
+  | { type: 'stderr'; data: string }
+  | { type: 'exit'; exitCode: number; durationMs: number };
+
+/** Buffered output of a finished command */
+export interface ExecResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  durationMs: number;
+}
+
+/** Options for `exec()`, `run()` and their streaming variants */
+export interface ExecOptions extends Pick<RequestOptions, 'signal' | 'tag'> {
+  /** Working directory, relative to the instance's home directory */
+  cwd?: string;
+  /** Extra environment variables */
+  env?: Record<string, string>;
+  /** Written to the command's stdin, which is then closed */
+  stdin?: string;
+  /** Kill the command after this many milliseconds; rejects with `TimeoutError` */
+  timeoutMs?: number;
+}
+
+/** Options for `run()` */
+export interface RunOptions extends ExecOptions {
+  /** Language of the code (default: the sandbox's `language`, else `python`) */
+  language?: string;
+}
+
+/**
+ * Where sandboxes and VMs run. `cloud` (default) uses the Consoles API; `local`
+ * runs commands in child processes on this machine, for development and tests.
+ */
+export type ComputeBackendOption = 'cloud' | 'local' | ComputeBackend;
+
+/**
+ * Runs sandbox and VM instances. Implemented by the cloud and local backends;
+ * custom backends can be passed as the `backend` option.
+ */
+export interface ComputeBackend {
+  /** Provision an instance and return its id */
+  create(kind: ComputeKind, options: SandboxOptions | VMOptions, requestOptions?: RequestOptions): Promise<string>;
+  /** Run a shell command, streaming its output and ending with an `exit` event */
+  exec(id: string, command: string, options?: ExecOptions): AsyncIterable<ComputeEvent>;
+  /** Write a file, creating parent directories */
+  writeFile(id: string, path: string, content: Uint8Array, requestOptions?: RequestOptions): Promise<void>;
+  /** Read a file */
+  readFile(id: string, path: string, requestOptions?: RequestOptions): Promise<Uint8Array>;
+  /** Stop the instance and release its resources */
+  close(id: string, requestOptions?: RequestOptions): Promise<void>;
+}
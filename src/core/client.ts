@@ -0,0 +1,178 @@
+import type { CacheOptions } from '../extract/types';
+import type { InterceptedRequest, Interceptor, RequestOptions, RetryPolicy } from '../types';
+import { APIError, ConsolesError, NetworkError, TimeoutError, errorFromResponse } from './errors';
+import type { UsageLedger } from './ledger';
+import { policyForMethod, resolveRetryPolicy, withRetry } from './retry';
+
+export const DEFAULT_BASE_URL = 'https://api.consoles.ai/v1';
+
+/**
+ * Resolved client settings shared by every service
+ */
+export interface ClientConfig {
+  apiKey: string;
+  baseURL: string;
+  fetch?: typeof fetch;
+  headers?: Record<string, string>;
+  retry?: RetryPolicy | false;
+  timeoutMs?: number;
+  /** Records usage of completed calls and enforces the budget */
+  ledger?: UsageLedger;
+  cache?: CacheOptions;
+  /** Run around every request, in order */
+  interceptors?: Interceptor[];
+}
+
+/**
+ * Send an API request with the client's retry, timeout and cancellation rules.
+ * `path` is resolved against the configured base URL.
+ * Resolves once a successful response arrives; the caller reads the body.
+ * Failures are thrown as `ConsolesError` subclasses, except aborts, which
+ * reject with the signal's reason. The client's interceptors run around
+ * every attempt.
+ */
+export async function send(
+  config: ClientConfig,
+  path: string,
+  init: RequestInit,
+  requestOptions: RequestOptions
+): Promise<Response> {
+  const policy = policyForMethod(resolveRetryPolicy(config.retry, requestOptions.retry), init.method ?? 'GET');
+  const timeoutMs = requestOptions.timeoutMs ?? config.timeoutMs;
+  const url = `${config.baseURL.replace(/\/+$/, '')}${path}`;
+  const fetchImpl = config.fetch ?? fetch;
+  const interceptors = config.interceptors ?? [];
+
+  return withRetry(async (attemptNumber) => {
+    const headers: Record<string, string> = {
+      ...config.headers,
+      'Authorization': `Bearer ${config.apiKey}`,
+      ...init.headers as Record<string, string>
+    };
+    // Interceptors see JSON bodies parsed; skip the round trip when there are none
+    const jsonBody = interceptors.length > 0 && typeof init.body === 'string' && isJson(headers);
+
+    let request: InterceptedRequest = {
+      method: init.method ?? 'GET',
+      url,
+      path,
+      headers,
+      body: jsonBody ? JSON.parse(init.body as string) : init.body,
+      attempt: attemptNumber,
+      tag: requestOptions.tag,
+      context: {}
+    };
+    for (const interceptor of interceptors) {
+      request = (await interceptor.onRequest?.(request)) || request;
+    }
+
+    const attempt = attemptSignal(requestOptions.signal, timeoutMs);
+    let received = false;
+    try {
+      let response = await fetchImpl(request.url, {
+        ...init,
+        method: request.method,
+        headers: request.headers,
+        body: jsonBody && request.body !== undefined ? JSON.stringify(request.body) : request.body as BodyInit,
+        signal: attempt.signal
+      });
+      received = true;
+
+      for (const interceptor of interceptors) {
+        response = (await interceptor.onResponse?.(response, request)) || response;
+      }
+      if (!response.ok) {
+        throw await errorFromResponse(response);
+      }
+      return response;
+    } catch (error) {
+      const failure = classifyFailure(error, {
+        aborted: !!requestOptions.signal?.aborted,
+        received,
+        timedOut: attempt.timedOut(),
+        timeoutMs,
+        url: request.url
+      });
+      for (const interceptor of interceptors) {
+        await interceptor.onError?.(failure, request);
+      }
+      throw failure;
+    } finally {
+      attempt.clear();
+    }
+  }, policy, requestOptions.signal);
+}
+
+/**
+ * Decide what a failed attempt throws. Failures of fetch itself become a
+ * TimeoutError or NetworkError; SDK errors, aborts and errors thrown by
+ * interceptors after the response arrived pass through unchanged.
+ */
+function classifyFailure(
+  error: unknown,
+  state: { aborted: boolean; received: boolean; timedOut: boolean; timeoutMs?: number; url: string }
+): unknown {
+  if (state.aborted || state.received || error instanceof ConsolesError) {
+    return error;
+  }
+  if (state.timedOut) {
+    return new TimeoutError(
+      `Request timed out after ${state.timeoutMs}ms. Please use chunked upload for large files or try again later.`,
+      'TIMEOUT',
+      { cause: error }
+    );
+  }
+  return new NetworkError(
+    `Could not reach the API at ${state.url}: ${error instanceof Error ? error.message : String(error)}`,
+    'NETWORK_ERROR',
+    { cause: error }
+  );
+}
+
+function isJson(headers: Record<string, string>): boolean {
+  const contentType = Object.entries(headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1];
+  return !!contentType?.includes('application/json');
+}
+
+/**
+ * Read a successful response as JSON, reporting unreadable bodies as an APIError
+ */
+export async function readJson<T = any>(response: Response): Promise<T> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    throw new APIError('API returned a response that is not valid JSON', 'INVALID_RESPONSE', {
+      status: response.status,
+      requestId: response.headers.get('x-request-id') ?? undefined,
+      details: text.slice(0, 500),
+      cause: error
+    });
+  }
+}
+
+/**
+ * Combine the caller's signal with a per-attempt timeout.
+ * The timeout only covers the attempt itself, so it is cleared once the
+ * response arrives while the caller's signal keeps governing the body.
+ * `AbortSignal.any` only holds the caller's signal weakly, so the attempts,
+ * upload chunks and batch items that share one signal add no listeners to it.
+ */
+function attemptSignal(signal?: AbortSignal, timeoutMs?: number) {
+  if (!timeoutMs) {
+    return { signal, timedOut: () => false, clear: () => {} };
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  return {
+    signal: signal ? AbortSignal.any([signal, controller.signal]) : controller.signal,
+    timedOut: () => timedOut,
+    clear: () => clearTimeout(timer)
+  };
+}
@@ -0,0 +1,87 @@
+import type { ConsolesOptions } from '../types';
+import { DEFAULT_BASE_URL } from './client';
+
+/** Environment variable holding the API key */
+export const API_KEY_ENV = 'CONSOLES_API_KEY';
+
+/** Environment variable overriding the API base URL */
+export const BASE_URL_ENV = 'CONSOLES_BASE_URL';
+
+/** File written by `consoles-ai setup`, relative to the home directory */
+export const ENV_FILE = '.consoles.env';
+
+/**
+ * Read an environment variable where one exists (Node, Bun, Deno with node compat)
+ */
+export function readEnv(name: string): string | undefined {
+  if (typeof process === 'undefined' || !process.env) {
+    return undefined;
+  }
+  return process.env[name] || undefined;
+}
+
+/**
+ * Resolve the base URL: explicit option, then `CONSOLES_BASE_URL`, then the public API
+ */
+export function resolveBaseURL(options: ConsolesOptions): string {
+  return options.baseURL ?? readEnv(BASE_URL_ENV) ?? DEFAULT_BASE_URL;
+}
+
+/**
+ * Headers sent with every request, before per-request headers
+ */
+export function resolveHeaders(options: ConsolesOptions): Record<string, string> {
+  return {
+    ...options.defaultHeaders,
+    ...(options.userAgent ? { 'User-Agent': options.userAgent } : {})
+  };
+}
+
+/**
+ * Look up the API key when none was passed explicitly: first `CONSOLES_API_KEY`,
+ * then the `API_KEY` entry of `~/.consoles.env` written by `consoles-ai setup`.
+ * The file is only consulted in Node and is read lazily so edge bundles never import node:fs.
+ */
+export async function resolveApiKey(): Promise<string | undefined> {
+  const fromEnv = readEnv(API_KEY_ENV);
+  if (fromEnv) {
+    return fromEnv;
+  }
+
+  if (typeof process === 'undefined' || !process.versions?.node) {
+    return undefined;
+  }
+
+  try {
+    const [{ readFile }, os, path] = await Promise.all([
+      import('node:fs/promises'),
+      import('node:os'),
+      import('node:path')
+    ]);
+    const content = await readFile(path.join(os.homedir(), ENV_FILE), 'utf-8');
+    return parseEnvFile(content).API_KEY || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse `KEY=value` lines, ignoring blanks and comments
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const entries: Record<string, string> = {};
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      continue;
+    }
+    const separator = trimmed.indexOf('=');
+    if (separator === -1) {
+      continue;
+    }
+    const key = trimmed.slice(0, separator).trim();
+    const value = trimmed.slice(separator + 1).trim().replace(/^(['"])(.*)\1$/, '$2');
+    entries[key] = value;
+  }
+  return entries;
+}
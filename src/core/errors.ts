@@ -0,0 +1,288 @@
+export type AuthenticationErrorCode = 'UNAUTHORIZED' | 'FORBIDDEN' | 'API_KEY_MISSING';
+export type RateLimitErrorCode = 'RATE_LIMITED';
+export type TimeoutErrorCode = 'TIMEOUT';
+export type StorageErrorCode = 'STORAGE_ERROR';
+export type InvalidRequestErrorCode =
+  | 'INVALID_REQUEST'
+  | 'NOT_FOUND'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'UNSUPPORTED_FILE_TYPE'
+  | 'INVALID_FILE_INPUT';
+export type NetworkErrorCode = 'NETWORK_ERROR' | 'STREAM_INTERRUPTED';
+export type APIErrorCode = 'SERVER_ERROR' | 'API_ERROR' | 'INVALID_RESPONSE';
+export type ExtractErrorCode = 'UPLOAD_FAILED' | 'BUDGET_EXCEEDED' | 'BATCH_STOPPED' | 'INVALID_SCHEMA';
+
+export interface ConsolesErrorOptions {
+  /** HTTP status, or 0 when the failure never reached the API */
+  status?: number;
+  /** Request id reported by the API, for support requests */
+  requestId?: string;
+  /** The API's error payload or other context */
+  details?: any;
+  /** Seconds to wait before retrying, when the API said so */
+  retryAfter?: number;
+  /** The underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Base class of every error thrown by the SDK.
+ * Narrow with `instanceof` on a subclass to get its typed `code`.
+ */
+export class ConsolesError extends Error {
+  readonly code: string;
+  readonly status: number;
+  readonly requestId?: string;
+  readonly details?: any;
+  readonly retryAfter?: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, code: string, options: ConsolesErrorOptions = {}) {
+    super(message);
+    this.name = 'ConsolesError';
+    this.code = code;
+    this.status = options.status ?? 0;
+    this.requestId = options.requestId;
+    this.details = options.details;
+    this.retryAfter = options.retryAfter;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * An extraction or API call failed. Extract-specific failures (uploads,
+ * budgets, batches, generated schemas) are thrown as `ExtractError` itself;
+ * API and network failures are thrown as its subclasses below, so existing
+ * `instanceof ExtractError` checks keep catching them.
+ */
+export class ExtractError extends ConsolesError {
+  declare readonly code:
+    | ExtractErrorCode
+    | AuthenticationErrorCode
+    | RateLimitErrorCode
+    | TimeoutErrorCode
+    | StorageErrorCode
+    | InvalidRequestErrorCode
+    | NetworkErrorCode
+    | APIErrorCode;
+
+  constructor(message: string, code: ExtractError['code'], options?: ConsolesErrorOptions);
+  /**
+   * @deprecated Pass the code and a `ConsolesErrorOptions` object instead
+   */
+  constructor(message: string, status: number, code?: string, details?: any, retryAfter?: number);
+  constructor(
+    message: string,
+    codeOrStatus: string | number,
+    codeOrOptions?: string | ConsolesErrorOptions,
+    details?: any,
+    retryAfter?: number
+  ) {
+    if (typeof codeOrStatus === 'number') {
+      super(message, (codeOrOptions as string | undefined) ?? 'API_ERROR', { status: codeOrStatus, details, retryAfter });
+    } else {
+      super(message, codeOrStatus, codeOrOptions as ConsolesErrorOptions | undefined);
+    }
+    this.name = 'ExtractError';
+  }
+}
+
+/**
+ * The API key is missing, invalid (401) or lacks access (403)
+ */
+export class AuthenticationError extends ExtractError {
+  declare readonly code: AuthenticationErrorCode;
+
+  constructor(message: string, code: AuthenticationErrorCode = 'UNAUTHORIZED', options: ConsolesErrorOptions = {}) {
+    super(message, code, options);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Too many requests (429). `retryAfter` holds the wait the API asked for.
+ */
+export class RateLimitError extends ExtractError {
+  declare readonly code: RateLimitErrorCode;
+
+  constructor(message: string, code: RateLimitErrorCode = 'RATE_LIMITED', options: ConsolesErrorOptions = {}) {
+    super(message, code, { status: 429, ...options });
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * The request timed out, either at the API (408) or on the client's `timeoutMs`
+ */
+export class TimeoutError extends ExtractError {
+  declare readonly code: TimeoutErrorCode;
+
+  constructor(message: string, code: TimeoutErrorCode = 'TIMEOUT', options: ConsolesErrorOptions = {}) {
+    super(message, code, { status: 408, ...options });
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The API's file storage is unavailable
+ */
+export class StorageError extends ExtractError {
+  declare readonly code: StorageErrorCode;
+
+  constructor(message: string, code: StorageErrorCode = 'STORAGE_ERROR', options: ConsolesErrorOptions = {}) {
+    super(message, code, options);
+    this.name = 'StorageError';
+  }
+}
+
+/**
+ * The request was rejected as malformed, unsupported or pointing at nothing.
+ * Also thrown before any call is made for inputs the API would reject.
+ */
+export class InvalidRequestError extends ExtractError {
+  declare readonly code: InvalidRequestErrorCode;
+
+  constructor(message: string, code: InvalidRequestErrorCode = 'INVALID_REQUEST', options: ConsolesErrorOptions = {}) {
+    super(message, code, options);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+/**
+ * The API could not be reached, or the connection dropped mid-response
+ */
+export class NetworkError extends ExtractError {
+  declare readonly code: NetworkErrorCode;
+
+  constructor(message: string, code: NetworkErrorCode = 'NETWORK_ERROR', options: ConsolesErrorOptions = {}) {
+    super(message, code, options);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Any other API failure: server errors, and responses the SDK cannot read
+ */
+export class APIError extends ExtractError {
+  declare readonly code: APIErrorCode;
+
+  constructor(message: string, code: APIErrorCode = 'API_ERROR', options: ConsolesErrorOptions = {}) {
+    super(message, code, options);
+    this.name = 'APIError';
+  }
+}
+
+const INVALID_REQUEST_CODES: InvalidRequestErrorCode[] = [
+  'INVALID_REQUEST',
+  'NOT_FOUND',
+  'PAYLOAD_TOO_LARGE',
+  'UNSUPPORTED_FILE_TYPE',
+  'INVALID_FILE_INPUT'
+];
+
+const INVALID_REQUEST_STATUS: Record<number, InvalidRequestErrorCode> = {
+  400: 'INVALID_REQUEST',
+  404: 'NOT_FOUND',
+  405: 'INVALID_REQUEST',
+  409: 'INVALID_REQUEST',
+  413: 'PAYLOAD_TOO_LARGE',
+  415: 'UNSUPPORTED_FILE_TYPE',
+  422: 'INVALID_REQUEST'
+};
+
+/**
+ * Convert a failed API response into the matching error class
+ */
+export async function errorFromResponse(response: Response): Promise<ConsolesError> {
+  const text = await response.text();
+  let payload: any;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    payload = undefined;
+  }
+
+  return errorFromPayload(response.status, payload, {
+    requestId: response.headers.get('x-request-id') ?? undefined,
+    retryAfter: parseRetryAfter(response.headers.get('retry-after')),
+    text
+  });
+}
+
+/**
+ * Convert an API error payload (`{ error: { message, code }, retryAfter }`)
+ * into the matching error class. Also used for errors sent mid-stream.
+ */
+export function errorFromPayload(
+  status: number,
+  payload: any,
+  fallback: { requestId?: string; retryAfter?: number; text?: string } = {}
+): ConsolesError {
+  const error = payload?.error;
+  const code: string | undefined = error?.code;
+  const message: string = error?.message
+    || (payload === undefined && fallback.text ? `API request failed (${status}): ${fallback.text}` : 'API request failed');
+  const options: ConsolesErrorOptions = {
+    status,
+    requestId: payload?.request_id ?? payload?.requestId ?? error?.request_id ?? fallback.requestId,
+    details: error ?? fallback.text,
+    retryAfter: payload?.retryAfter ?? fallback.retryAfter
+  };
+
+  // Older API versions report storage outages by message only
+  if (code === 'STORAGE_ERROR' || message.includes('R2 bucket is not available')) {
+    return new StorageError(
+      'Storage configuration error: R2 bucket is not available. The request may still succeed with direct upload.',
+      'STORAGE_ERROR',
+      options
+    );
+  }
+  if (code === 'TIMEOUT' || status === 408 || status === 504) {
+    return new TimeoutError(
+      'Request timeout. Please use chunked upload for large files or try again later.',
+      'TIMEOUT',
+      { ...options, status: 408, retryAfter: options.retryAfter || 5 }
+    );
+  }
+  if (code === 'RATE_LIMITED' || status === 429) {
+    return new RateLimitError(message, 'RATE_LIMITED', options);
+  }
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, status === 401 ? 'UNAUTHORIZED' : 'FORBIDDEN', options);
+  }
+  if (INVALID_REQUEST_STATUS[status]) {
+    const known = INVALID_REQUEST_CODES.includes(code as InvalidRequestErrorCode);
+    return new InvalidRequestError(message, known ? code as InvalidRequestErrorCode : INVALID_REQUEST_STATUS[status], options);
+  }
+  return new APIError(message, status >= 500 ? 'SERVER_ERROR' : 'API_ERROR', options);
+}
+
+/**
+ * Surface an error thrown by a user callback (a listener or progress hook)
+ * without failing the SDK call that invoked it: it is raised again outside
+ * the call, where the runtime reports it as an uncaught error.
+ */
+export function reportCallbackError(error: unknown): void {
+  if (typeof reportError === 'function') {
+    reportError(error);
+  } else {
+    queueMicrotask(() => {
+      throw error;
+    });
+  }
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return seconds;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+}
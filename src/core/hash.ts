@@ -0,0 +1,21 @@
+/**
+ * Hex-encoded SHA-256 digest using Web Crypto
+ */
+export async function sha256Hex(data: string | ArrayBuffer): Promise<string> {
+  const subtle = globalThis.crypto?.subtle ?? (await import('node:crypto')).webcrypto.subtle;
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * JSON with object keys sorted, so equivalent schemas hash identically
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) => {
+    if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+      return Object.fromEntries(Object.keys(nested).sort().map(key => [key, nested[key]]));
+    }
+    return nested;
+  });
+}
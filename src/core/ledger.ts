@@ -0,0 +1,167 @@
+import type { ExtractUsage } from '../extract/types';
+import { addUsage, compareDecimal, emptyUsage } from '../extract/usage';
+import type { BudgetEvent, BudgetOptions, UsageBreakdown } from '../types';
+import { ExtractError, reportCallbackError } from './errors';
+
+/**
+ * Tracks cumulative usage for a Consoles instance and enforces an optional budget.
+ * Costs are summed as decimal strings, so totals match the API's figures exactly.
+ */
+export class UsageLedger {
+  #total: UsageBreakdown = { calls: 0, usage: emptyUsage() };
+  #byInputType = new Map<string, UsageBreakdown>();
+  #byTag = new Map<string, UsageBreakdown>();
+  #budget?: BudgetOptions;
+  #listeners = new Set<(event: BudgetEvent) => void>();
+  #warned = false;
+  #exceeded = false;
+
+  constructor(budget?: BudgetOptions) {
+    this.#budget = budget;
+  }
+
+  /** Usage across every call */
+  get total(): UsageBreakdown {
+    return copy(this.#total);
+  }
+
+  /** Usage per input type (`text`, `url`, `file`, `generate_schema`) */
+  get byInputType(): Record<string, UsageBreakdown> {
+    return toRecord(this.#byInputType);
+  }
+
+  /** Usage per caller-supplied `tag` request option */
+  get byTag(): Record<string, UsageBreakdown> {
+    return toRecord(this.#byTag);
+  }
+
+  get budget(): BudgetOptions | undefined {
+    return this.#budget;
+  }
+
+  /**
+   * Replace the budget. Warning and exceeded events can fire again afterwards.
+   */
+  setBudget(budget?: BudgetOptions) {
+    this.#budget = budget;
+    this.#warned = false;
+    this.#exceeded = false;
+    this.#evaluate();
+  }
+
+  /**
+   * Subscribe to budget events. A listener that throws does not fail the call
+   * being recorded; its error is reported as uncaught instead.
+   * @returns A function that removes the listener
+   */
+  on(listener: (event: BudgetEvent) => void): () => void {
+    this.#listeners.add(listener);
+    return () => {
+      this.#listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Add the usage of a completed call
+   */
+  record(usage: Partial<ExtractUsage> | undefined, labels: { inputType?: string; tag?: string } = {}) {
+    if (!usage) {
+      return;
+    }
+    add(this.#total, usage);
+    if (labels.inputType) {
+      add(entry(this.#byInputType, labels.inputType), usage);
+    }
+    if (labels.tag) {
+      add(entry(this.#byTag, labels.tag), usage);
+    }
+    this.#evaluate();
+  }
+
+  /**
+   * Refuse a new call when a blocking budget has been reached
+   * @throws {ExtractError} With code `BUDGET_EXCEEDED`
+   */
+  check() {
+    if (this.#budget && (this.#budget.mode ?? 'block') === 'block' && this.#isExceeded()) {
+      throw new ExtractError(
+        `Usage budget exceeded (spent $${this.#total.usage.total_cost}, ${this.#total.usage.total_tokens} tokens). Raise the budget or reset the ledger to continue.`,
+        'BUDGET_EXCEEDED',
+        { status: 402, details: { usage: this.#total.usage, budget: this.#budget } }
+      );
+    }
+  }
+
+  /**
+   * Clear all recorded usage
+   */
+  reset() {
+    this.#total = { calls: 0, usage: emptyUsage() };
+    this.#byInputType.clear();
+    this.#byTag.clear();
+    this.#warned = false;
+    this.#exceeded = false;
+  }
+
+  #isExceeded(): boolean {
+    const { maxCost, maxTokens } = this.#budget ?? {};
+    const { usage } = this.#total;
+    return (maxCost !== undefined && compareDecimal(usage.total_cost, String(maxCost)) >= 0)
+      || (maxTokens !== undefined && usage.total_tokens >= maxTokens);
+  }
+
+  #isNearLimit(): boolean {
+    const { maxCost, maxTokens, warnAt = 0.8 } = this.#budget ?? {};
+    const { usage } = this.#total;
+    return (maxCost !== undefined && Number(usage.total_cost) >= Number(maxCost) * warnAt)
+      || (maxTokens !== undefined && usage.total_tokens >= maxTokens * warnAt);
+  }
+
+  #evaluate() {
+    if (!this.#budget) {
+      return;
+    }
+    if (!this.#exceeded && this.#isExceeded()) {
+      this.#exceeded = true;
+      this.#warned = true;
+      this.#emit('exceeded');
+    } else if (!this.#warned && this.#isNearLimit()) {
+      this.#warned = true;
+      this.#emit('warning');
+    }
+  }
+
+  #emit(type: BudgetEvent['type']) {
+    const event: BudgetEvent = { type, usage: { ...this.#total.usage }, budget: this.#budget! };
+    this.#listeners.forEach(listener => {
+      // The call being recorded has already been billed: a failing listener must not lose its result
+      try {
+        listener(event);
+      } catch (error) {
+        reportCallbackError(error);
+      }
+    });
+  }
+}
+
+function add(target: UsageBreakdown, usage: Partial<ExtractUsage>) {
+  target.calls++;
+  target.usage = addUsage(target.usage, usage);
+}
+
+function entry(map: Map<string, UsageBreakdown>, key: string): UsageBreakdown {
+  let breakdown = map.get(key);
+  if (!breakdown) {
+    breakdown = { calls: 0, usage: emptyUsage() };
+    map.set(key, breakdown);
+  }
+  return breakdown;
+}
+
+function copy(breakdown: UsageBreakdown): UsageBreakdown {
+  return { calls: breakdown.calls, usage: { ...breakdown.usage } };
+}
+
+function toRecord(map: Map<string, UsageBreakdown>): Record<string, UsageBreakdown> {
+  return Object.fromEntries([...map].map(([key, breakdown]) => [key, copy(breakdown)]));
+}
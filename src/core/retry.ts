@@ -0,0 +1,143 @@
+import type { RetryPolicy } from '../types';
+import { NetworkError } from './errors';
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 30_000,
+  backoffFactor: 2,
+  jitter: true,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryOnCodes: ['TIMEOUT', 'RATE_LIMITED'],
+  retryNetworkErrors: true,
+  retryNonIdempotent: false
+};
+
+/** Methods whose requests the API may act on more than once if resent */
+const NON_IDEMPOTENT_METHODS = ['POST', 'PATCH'];
+/** Statuses that mean the API did not process the request */
+const UNPROCESSED_STATUS = [408, 429];
+
+/**
+ * Merge the per-call policy over the client policy.
+ * Returns null when retries are disabled at either level.
+ */
+export function resolveRetryPolicy(
+  clientPolicy?: RetryPolicy | false,
+  callPolicy?: RetryPolicy | false
+): Required<RetryPolicy> | null {
+  if (clientPolicy === false && callPolicy === undefined) {
+    return null;
+  }
+  if (callPolicy === false) {
+    return null;
+  }
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...(clientPolicy || {}),
+    ...(callPolicy || {})
+  };
+}
+
+/**
+ * Narrow a policy for a request method. Unless `retryNonIdempotent` is set,
+ * POST and PATCH requests are only retried when the API did not process them
+ * (408, 429 or a `Retry-After`): after a 5xx or a dropped connection the call
+ * may already have run, and been billed.
+ */
+export function policyForMethod(policy: Required<RetryPolicy> | null, method: string): Required<RetryPolicy> | null {
+  if (!policy || policy.retryNonIdempotent || !NON_IDEMPOTENT_METHODS.includes(method.toUpperCase())) {
+    return policy;
+  }
+  return {
+    ...policy,
+    retryOnStatus: policy.retryOnStatus.filter(status => UNPROCESSED_STATUS.includes(status)),
+    retryNetworkErrors: false
+  };
+}
+
+/**
+ * Decide whether a failed attempt should be retried.
+ * API errors are matched on `status` and `code`, and retried whenever the API
+ * sent a `Retry-After` with a 5xx; network failures are retried when the
+ * policy allows. Aborts are never retried.
+ */
+export function isRetryable(error: unknown, policy: Required<RetryPolicy>): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+  if ((error as Error).name === 'AbortError') {
+    return false;
+  }
+
+  const { status, code, retryAfter } = error as { status?: number; code?: string; retryAfter?: number };
+  if (code && policy.retryOnCodes.includes(code)) {
+    return true;
+  }
+  if (typeof retryAfter === 'number' && typeof status === 'number' && status >= 500) {
+    return true;
+  }
+  if (typeof status === 'number' && status > 0) {
+    return policy.retryOnStatus.includes(status);
+  }
+  return policy.retryNetworkErrors && (error instanceof NetworkError || error instanceof TypeError);
+}
+
+/**
+ * Delay before the given retry (1-based), in milliseconds
+ */
+export function retryDelay(retry: number, policy: Required<RetryPolicy>, retryAfterSeconds?: number): number {
+  if (typeof retryAfterSeconds === 'number' && retryAfterSeconds >= 0) {
+    return Math.min(retryAfterSeconds * 1000, policy.maxDelayMs);
+  }
+
+  const backoff = Math.min(
+    policy.initialDelayMs * Math.pow(policy.backoffFactor, retry - 1),
+    policy.maxDelayMs
+  );
+  return policy.jitter ? Math.random() * backoff : backoff;
+}
+
+/**
+ * Resolve after `ms`, or reject as soon as the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run an operation, retrying failures allowed by the policy
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: Required<RetryPolicy> | null,
+  signal?: AbortSignal
+): Promise<T> {
+  const maxAttempts = policy ? Math.max(1, policy.maxAttempts) : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (!policy || attempt >= maxAttempts || signal?.aborted || !isRetryable(error, policy)) {
+        throw error;
+      }
+      await sleep(retryDelay(attempt, policy, (error as { retryAfter?: number }).retryAfter), signal);
+    }
+  }
+}
@@ -0,0 +1,288 @@
+import { parseEventBlock } from '../extract/stream';
+import type { InterceptedRequest, Interceptor } from '../types';
+import { reportCallbackError } from './errors';
+import type { ConsolesError } from './errors';
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The part of an OpenTelemetry `Span` the SDK uses, so any OpenTelemetry
+ * tracer works without the SDK depending on it
+ */
+export interface SpanLike {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  end(): void;
+}
+
+/**
+ * The part of an OpenTelemetry `Tracer` the SDK uses
+ */
+export interface TracerLike {
+  startSpan(name: string, options?: { kind?: number; attributes?: SpanAttributes }): SpanLike;
+}
+
+/**
+ * A finished span, for reporting without a tracer
+ */
+export interface SpanRecord {
+  name: string;
+  /** Epoch milliseconds */
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+  attributes: SpanAttributes;
+  status: 'ok' | 'error';
+  error?: unknown;
+}
+
+export interface TracingOptions {
+  /** An OpenTelemetry tracer, e.g. `trace.getTracer('consoles-ai')` */
+  tracer?: TracerLike;
+  /** Called with every finished span. Errors it throws are reported as uncaught and do not fail the request. */
+  onSpan?: (span: SpanRecord) => void;
+}
+
+/** OpenTelemetry `SpanKind.CLIENT` */
+const SPAN_KIND_CLIENT = 2;
+/** OpenTelemetry `SpanStatusCode` values */
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+const SPAN_KEY = 'consoles.span';
+
+interface ActiveSpan {
+  name: string;
+  startTime: number;
+  attributes: SpanAttributes;
+  span?: SpanLike;
+}
+
+/**
+ * Interceptor that records one client span per API request attempt, with
+ * OpenTelemetry-style attributes: method, URL, status, attempt, tag, input type,
+ * request and extraction ids, token usage and cost. Streamed extractions are
+ * ended once the caller has read their final event, or stopped reading.
+ *
+ * @example
+ * ```typescript
+ * const consoles = new Consoles({
+ *   interceptors: [tracingInterceptor({ tracer: trace.getTracer('consoles-ai') })]
+ * });
+ * ```
+ */
+export function tracingInterceptor(options: TracingOptions): Interceptor {
+  return {
+    onRequest(request) {
+      const body = isRecord(request.body) ? request.body : {};
+      const attributes: SpanAttributes = {
+        'http.request.method': request.method,
+        'url.full': request.url,
+        'consoles.operation': operationName(request.path),
+        'consoles.attempt': request.attempt
+      };
+      setDefined(attributes, 'consoles.tag', request.tag);
+      setDefined(attributes, 'consoles.input_type', body.type);
+      setDefined(attributes, 'consoles.stream', body.stream);
+
+      const name = `consoles.${operationName(request.path)}`;
+      request.context[SPAN_KEY] = {
+        name,
+        startTime: Date.now(),
+        attributes,
+        span: options.tracer?.startSpan(name, { kind: SPAN_KIND_CLIENT, attributes })
+      } satisfies ActiveSpan;
+    },
+
+    async onResponse(response, request) {
+      // Failed responses are ended by onError
+      const active = activeSpan(request, response.ok);
+      if (!active) {
+        return;
+      }
+      setAttribute(active, 'http.response.status_code', response.status);
+      setAttribute(active, 'consoles.request_id', response.headers.get('x-request-id') ?? undefined);
+      if (!response.ok) {
+        return;
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      if (contentType.includes('text/event-stream') && response.body) {
+        // Watch the events as the caller reads them, so that cancelling the stream still closes the connection
+        const body = observeFinalEvent(response.body, (final, error) => {
+          recordResult(active, final);
+          finish(active, options, error);
+        });
+        return new Response(body, response);
+      }
+      if (contentType.includes('application/json')) {
+        try {
+          recordResult(active, await response.clone().json());
+        } catch {
+          // Unreadable bodies are reported by the caller
+        }
+      }
+      finish(active, options);
+    },
+
+    onError(error, request) {
+      const active = activeSpan(request, true);
+      if (!active) {
+        return;
+      }
+      const code = (error as Partial<ConsolesError>)?.code;
+      setAttribute(active, 'error.type', code ?? (error instanceof Error ? error.name : 'Error'));
+      if (error instanceof Error) {
+        active.span?.recordException(error);
+      }
+      finish(active, options, error);
+    }
+  };
+}
+
+/**
+ * The attempt's open span. Taking it detaches it so it is only ended once.
+ */
+function activeSpan(request: InterceptedRequest, take: boolean): ActiveSpan | undefined {
+  const active = request.context[SPAN_KEY] as ActiveSpan | undefined;
+  if (take) {
+    delete request.context[SPAN_KEY];
+  }
+  return active;
+}
+
+function finish(active: ActiveSpan, options: TracingOptions, error?: unknown) {
+  const endTime = Date.now();
+  active.span?.setStatus(error
+    ? { code: STATUS_ERROR, message: error instanceof Error ? error.message : String(error) }
+    : { code: STATUS_OK });
+  active.span?.end();
+  try {
+    options.onSpan?.({
+      name: active.name,
+      startTime: active.startTime,
+      endTime,
+      durationMs: endTime - active.startTime,
+      attributes: active.attributes,
+      status: error ? 'error' : 'ok',
+      error
+    });
+  } catch (callbackError) {
+    reportCallbackError(callbackError);
+  }
+}
+
+/**
+ * Record ids, usage and cost from a response body
+ */
+function recordResult(active: ActiveSpan, data: unknown) {
+  if (!isRecord(data)) {
+    return;
+  }
+  setAttribute(active, 'consoles.request_id', data.request_id);
+  setAttribute(active, 'consoles.id', data.id ?? data.uploadId);
+  setAttribute(active, 'consoles.input_type', data.input_type);
+
+  const usage = data.usage;
+  if (isRecord(usage)) {
+    setAttribute(active, 'consoles.usage.input_tokens', usage.input_tokens);
+    setAttribute(active, 'consoles.usage.output_tokens', usage.output_tokens);
+    setAttribute(active, 'consoles.usage.total_tokens', usage.total_tokens);
+    // Costs are decimal strings; keep them exact
+    setAttribute(active, 'consoles.cost.input', usage.input_cost);
+    setAttribute(active, 'consoles.cost.output', usage.output_cost);
+    setAttribute(active, 'consoles.cost.total', usage.total_cost);
+  }
+}
+
+/**
+ * Pass an event stream through unchanged, reporting its `done` event's data
+ * once the stream ends, fails or is cancelled by the reader
+ */
+function observeFinalEvent(
+  body: ReadableStream<Uint8Array>,
+  onEnd: (final: unknown, error?: unknown) => void
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let final: unknown;
+  let ended = false;
+
+  const end = (error?: unknown) => {
+    if (!ended) {
+      ended = true;
+      onEnd(final, error);
+    }
+  };
+
+  const observe = (text: string) => {
+    buffer += text;
+    let boundary = buffer.search(/\r?\n\r?\n/);
+    while (boundary !== -1) {
+      const event = parseEventBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+      if (event?.event === 'done') {
+        try {
+          final = JSON.parse(event.data);
+        } catch {
+          // The caller reports malformed events
+        }
+      }
+      boundary = buffer.search(/\r?\n\r?\n/);
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (error) {
+        end(error);
+        controller.error(error);
+        return;
+      }
+      if (chunk.done) {
+        // A final event not followed by a blank line
+        observe(decoder.decode() + '\n\n');
+        end();
+        controller.close();
+        return;
+      }
+      observe(decoder.decode(chunk.value, { stream: true }));
+      controller.enqueue(chunk.value);
+    },
+    async cancel(reason) {
+      end();
+      await reader.cancel(reason);
+    }
+  });
+}
+
+/**
+ * `/extract` → `extract`, `/uploads/upl_1/chunks/0` → `uploads.chunks`
+ */
+function operationName(path: string): string {
+  const segments = path.split('?')[0].split('/').filter(Boolean);
+  return segments.filter((_segment, index) => index % 2 === 0).join('.') || 'request';
+}
+
+function setAttribute(active: ActiveSpan, key: string, value: unknown) {
+  if (setDefined(active.attributes, key, value)) {
+    active.span?.setAttribute(key, active.attributes[key]);
+  }
+}
+
+function setDefined(attributes: SpanAttributes, key: string, value: unknown): boolean {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    attributes[key] = value;
+    return true;
+  }
+  return false;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,159 @@
+import { RateLimitError, reportCallbackError } from '../core/errors';
+import { retryDelay, sleep, withRetry } from '../core/retry';
+import type { RequestOptions, RetryPolicy } from '../types';
+import { ExtractError } from './errors';
+import type { BatchItemResult, BatchOptions, BatchResult, ExtractInput, ExtractResponse } from './types';
+import { addUsage, emptyUsage } from './usage';
+
+type Execute<T> = (input: ExtractInput, requestOptions: RequestOptions) => Promise<ExtractResponse<T>>;
+
+/**
+ * A running batch of extractions.
+ *
+ * Iterate it with `for await` to receive items as they complete, or await it
+ * for every item in input order together with the aggregated usage.
+ */
+export class ExtractBatch<T = any> implements AsyncIterable<BatchItemResult<T>>, PromiseLike<BatchResult<T>> {
+  readonly result: Promise<BatchResult<T>>;
+
+  #completed: BatchItemResult<T>[] = [];
+  #waiting: Array<() => void> = [];
+  #finished = false;
+
+  constructor(
+    inputs: ExtractInput[],
+    execute: Execute<T>,
+    options: BatchOptions = {},
+    requestOptions: RequestOptions = {},
+    retryPolicy: Required<RetryPolicy> | null = null
+  ) {
+    this.result = this.#run(inputs, execute, options, requestOptions, retryPolicy);
+    // Failures surface per item; the aggregate promise itself never rejects
+    this.result.finally(() => {
+      this.#finished = true;
+      this.#notify();
+    });
+  }
+
+  then<TResult1 = BatchResult<T>, TResult2 = never>(
+    onfulfilled?: ((value: BatchResult<T>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.result.then(onfulfilled, onrejected);
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<BatchItemResult<T>> {
+    let position = 0;
+    while (true) {
+      if (position < this.#completed.length) {
+        yield this.#completed[position++];
+      } else if (this.#finished) {
+        return;
+      } else {
+        await new Promise<void>(resolve => this.#waiting.push(resolve));
+      }
+    }
+  }
+
+  #notify() {
+    const waiting = this.#waiting;
+    this.#waiting = [];
+    waiting.forEach(resolve => resolve());
+  }
+
+  async #run(
+    inputs: ExtractInput[],
+    execute: Execute<T>,
+    options: BatchOptions,
+    requestOptions: RequestOptions,
+    retryPolicy: Required<RetryPolicy> | null
+  ): Promise<BatchResult<T>> {
+    const concurrency = Math.max(1, options.concurrency ?? 5);
+    const items: BatchItemResult<T>[] = new Array(inputs.length);
+    let next = 0;
+    let stopped = false;
+    // A rate limit on one item pauses the whole pool, not just that item
+    let pausedUntil = 0;
+
+    const attempt = async (input: ExtractInput) => {
+      const wait = pausedUntil - Date.now();
+      if (wait > 0) {
+        await sleep(wait, requestOptions.signal);
+      }
+      try {
+        return await execute(input, { ...requestOptions, retry: false });
+      } catch (error) {
+        if (error instanceof RateLimitError && retryPolicy) {
+          pausedUntil = Math.max(pausedUntil, Date.now() + retryDelay(1, retryPolicy, error.retryAfter));
+        }
+        throw error;
+      }
+    };
+
+    const complete = (item: BatchItemResult<T>) => {
+      items[item.index] = item;
+      this.#completed.push(item);
+      try {
+        options.onItem?.(item);
+      } catch (error) {
+        // A failing callback must not change the item's outcome or stop the pool
+        reportCallbackError(error);
+      }
+      this.#notify();
+    };
+
+    const worker = async () => {
+      while (next < inputs.length) {
+        const index = next++;
+        const input = inputs[index];
+
+        if (stopped || requestOptions.signal?.aborted) {
+          complete({
+            index,
+            input,
+            status: 'rejected',
+            error: requestOptions.signal?.aborted
+              ? requestOptions.signal.reason
+              : new ExtractError('Skipped because an earlier item in the batch failed', 'BATCH_STOPPED')
+          });
+          continue;
+        }
+
+        let item: BatchItemResult<T>;
+        try {
+          const response = await withRetry(() => attempt(input), retryPolicy, requestOptions.signal);
+          item = { index, input, status: 'fulfilled', response };
+        } catch (error) {
+          if (options.stopOnError) {
+            stopped = true;
+          }
+          item = {
+            index,
+            input,
+            status: 'rejected',
+            error: error instanceof Error ? error : new Error(String(error))
+          };
+        }
+        complete(item);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, inputs.length) }, worker));
+
+    let usage = emptyUsage();
+    let succeeded = 0;
+    for (const item of items) {
+      if (item.status === 'fulfilled') {
+        usage = addUsage(usage, item.response.usage);
+        succeeded++;
+      }
+    }
+
+    return {
+      items,
+      usage,
+      succeeded,
+      failed: items.length - succeeded
+    };
+  }
+}
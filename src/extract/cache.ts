@@ -0,0 +1,190 @@
+import { canonicalJson, sha256Hex } from '../core/hash';
+import { resolveFileInput } from './input';
+import { toJsonSchema } from './schema';
+import type { CacheStore, ExtractOptions, ExtractResponse, KeyValueNamespace } from './types';
+import { isBinaryContent, isFileReference } from './upload';
+
+/** Files are hashed slice by slice so large inputs never sit in memory whole */
+const HASH_SLICE_SIZE = 16 * 1024 * 1024; // 16MB
+
+interface CacheEntry {
+  value: ExtractResponse;
+  expiresAt?: number;
+}
+
+/**
+ * In-memory store that evicts the least recently used entry once full
+ */
+export class MemoryCacheStore implements CacheStore {
+  #entries = new Map<string, CacheEntry>();
+  #maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.#maxEntries = options.maxEntries ?? 500;
+  }
+
+  async get(key: string): Promise<ExtractResponse | undefined> {
+    const entry = this.#entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.#entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.#entries.delete(key);
+    this.#entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: ExtractResponse, ttlMs?: number): Promise<void> {
+    this.#entries.delete(key);
+    this.#entries.set(key, { value, expiresAt: ttlMs ? Date.now() + ttlMs : undefined });
+
+    while (this.#entries.size > this.#maxEntries) {
+      this.#entries.delete(this.#entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.#entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.#entries.clear();
+  }
+}
+
+/**
+ * Store that keeps one JSON file per entry in a directory (Node only)
+ */
+export class FileSystemCacheStore implements CacheStore {
+  #directory: string;
+
+  constructor(directory: string) {
+    this.#directory = directory;
+  }
+
+  async get(key: string): Promise<ExtractResponse | undefined> {
+    const { readFile, rm } = await import('node:fs/promises');
+    const file = await this.#path(key);
+
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await readFile(file, 'utf-8'));
+    } catch {
+      return undefined;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await rm(file, { force: true });
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: ExtractResponse, ttlMs?: number): Promise<void> {
+    const { mkdir, rename, writeFile } = await import('node:fs/promises');
+    const file = await this.#path(key);
+    const entry: CacheEntry = { value, expiresAt: ttlMs ? Date.now() + ttlMs : undefined };
+
+    // Write then rename so concurrent readers never see a partial file
+    await mkdir(this.#directory, { recursive: true });
+    const temporary = `${file}.${Date.now()}.tmp`;
+    await writeFile(temporary, JSON.stringify(entry));
+    await rename(temporary, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    const { rm } = await import('node:fs/promises');
+    await rm(await this.#path(key), { force: true });
+  }
+
+  async #path(key: string): Promise<string> {
+    const path = await import('node:path');
+    return path.join(this.#directory, `${key}.json`);
+  }
+}
+
+/**
+ * Store backed by any string key/value namespace with `get`/`put`/`delete`,
+ * such as a Cloudflare KV binding
+ */
+export class KeyValueCacheStore implements CacheStore {
+  #namespace: KeyValueNamespace;
+  #prefix: string;
+
+  constructor(namespace: KeyValueNamespace, options: { prefix?: string } = {}) {
+    this.#namespace = namespace;
+    this.#prefix = options.prefix ?? 'consoles-extract:';
+  }
+
+  async get(key: string): Promise<ExtractResponse | undefined> {
+    const value = await this.#namespace.get(this.#prefix + key);
+    return value ? JSON.parse(value) : undefined;
+  }
+
+  async set(key: string, value: ExtractResponse, ttlMs?: number): Promise<void> {
+    // KV expirations are in seconds with a 60 second minimum
+    await this.#namespace.put(
+      this.#prefix + key,
+      JSON.stringify(value),
+      ttlMs ? { expirationTtl: Math.max(60, Math.ceil(ttlMs / 1000)) } : undefined
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.#namespace.delete?.(this.#prefix + key);
+  }
+}
+
+/**
+ * Compute the cache key for an extraction: a SHA-256 over the content (or URL),
+ * schema, prompt and schema description. Returns null for inputs that cannot be
+ * hashed without consuming them, i.e. streams.
+ */
+export async function cacheKey(options: Exclude<ExtractOptions, { type: 'generate_schema' }>): Promise<string | null> {
+  let content: unknown = options.content;
+
+  if (options.type === 'file') {
+    const digest = await fileDigest(options);
+    if (digest === null) {
+      return null;
+    }
+    content = digest;
+  }
+
+  return sha256Hex(canonicalJson({
+    type: options.type,
+    content,
+    schema: options.schema ? toJsonSchema(options.schema) : undefined,
+    prompt: options.prompt,
+    schemaDescription: options.schemaDescription
+  }));
+}
+
+async function fileDigest(options: Extract<ExtractOptions, { type: 'file' }>): Promise<string | null> {
+  const { content } = options;
+
+  if (isFileReference(content)) {
+    return `upload:${content.uploadId}`;
+  }
+  if (!isBinaryContent(content) && typeof content !== 'string') {
+    return `${content.mimeType}:${await sha256Hex(content.data)}`;
+  }
+  if (typeof ReadableStream !== 'undefined' && content instanceof ReadableStream) {
+    return null;
+  }
+
+  const file = await resolveFileInput(content, { fileName: options.fileName, mimeType: options.mimeType });
+  const blob = file.content instanceof Blob
+    ? file.content
+    : new Blob([file.content as Uint8Array<ArrayBuffer>]);
+
+  const sliceDigests: string[] = [];
+  for (let start = 0; start < blob.size || start === 0; start += HASH_SLICE_SIZE) {
+    sliceDigests.push(await sha256Hex(await blob.slice(start, start + HASH_SLICE_SIZE).arrayBuffer()));
+  }
+  return `${file.mimeType}:${sliceDigests.length === 1 ? sliceDigests[0] : await sha256Hex(sliceDigests.join(''))}`;
+}
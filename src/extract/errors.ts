@@ -0,0 +1,26 @@
+import { ConsolesError } from '../core/errors';
+import type { ExtractResponse } from './types';
+import type { ValidationIssue } from './validate';
+
+// Defined with the shared errors, which extend it
+export { ExtractError } from '../core/errors';
+export type { ExtractErrorCode } from '../core/errors';
+
+/**
+ * Thrown when an extraction result does not match the Zod schema it was requested
+ * with, or, with the `validate` option, its JSON Schema. `issues` locates each mismatch.
+ */
+export class SchemaValidationError extends ConsolesError {
+  declare readonly code: 'SCHEMA_VALIDATION_FAILED';
+  result: unknown;
+  issues: ValidationIssue[];
+  response: ExtractResponse;
+
+  constructor(message: string, response: ExtractResponse, issues: ValidationIssue[]) {
+    super(message, 'SCHEMA_VALIDATION_FAILED', { details: issues });
+    this.name = 'SchemaValidationError';
+    this.result = response.result;
+    this.issues = issues;
+    this.response = response;
+  }
+}
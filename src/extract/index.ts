@@ -1,99 +1,427 @@
+import { parseAsJSON } from '@acusti/parsing';
+import { readJson, send } from '../core/client';
+import type { ClientConfig } from '../core/client';
+import { APIError, NetworkError, errorFromPayload } from '../core/errors';
+import type { RequestOptions } from '../types';
+import { cacheKey } from './cache';
+import { ExtractError, SchemaValidationError } from './errors';
+import { readServerSentEvents } from './stream';
+import type { ServerSentEvent } from './stream';
+import { assertSupportedMimeType, readAllBytes, resolveFileInput, toBase64 } from './input';
+import { isFileInput, isFileReference, uploadFile } from './upload';
+import { isZodSchema, jsonSchemaToZod, jsonSchemaToZodSource, toJsonSchema } from './schema';
+import { formatIssues, repairAgainstSchema, validateAgainstSchema } from './validate';
+import type { ValidationIssue, ValidationRepair } from './validate';
 import type {
+  DeepPartial,
   ExtractResponse,
   ExtractOptions,
-  ExtractInput
+  ExtractInput,
+  ExtractStreamEvent,
+  FileInput,
+  GenerateSchemaFormatOptions,
+  GenerateSchemaOptions,
+  GenerateSchemaResponse,
+  UploadOptions,
+  UploadResult
 } from './types';
 
-/**
- * Custom error class for Extract API errors
- */
-export class ExtractError extends Error {
-  status: number;
-  code?: string;
-  details?: any;
-  retryAfter?: number;
-
-  constructor(message: string, status: number, code?: string, details?: any, retryAfter?: number) {
-    super(message);
-    this.name = 'ExtractError';
-    this.status = status;
-    this.code = code;
-    this.details = details;
-    this.retryAfter = retryAfter;
-  }
-}
+const EXTRACT_PATH = '/extract';
 
-async function makeRequest(apiKey: string, options: ExtractInput): Promise<ExtractResponse> {
-  let normalizedOptions: Exclude<ExtractOptions, { type: 'generate_schema' }>;
+/** Files up to this size are sent inline as base64 instead of being uploaded */
+const INLINE_FILE_LIMIT = 4 * 1024 * 1024; // 4MB
 
+function normalizeOptions(options: ExtractInput): Exclude<ExtractOptions, { type: 'generate_schema' }> {
   // Handle string shorthand
   if (typeof options === 'string') {
-    normalizedOptions = {
+    return {
       type: 'text',
       content: options
     };
-  } else {
-    normalizedOptions = options;
   }
+  return options;
+}
+
+/**
+ * Resolve file content: validate its type, inline small files as base64 and
+ * upload larger ones in chunks, replacing them with a reference to the upload
+ */
+async function prepareOptions(
+  config: ClientConfig,
+  options: Exclude<ExtractOptions, { type: 'generate_schema' }>,
+  requestOptions: RequestOptions
+): Promise<Exclude<ExtractOptions, { type: 'generate_schema' }>> {
+  if (options.type !== 'file') {
+    return options;
+  }
+
+  const { upload, mimeType, ...rest } = options;
+  const { content } = options;
+  if (isFileReference(content)) {
+    return rest;
+  }
+  if (!isFileInput(content)) {
+    assertSupportedMimeType(content.mimeType, options.fileName);
+    return rest;
+  }
+
+  const file = await resolveFileInput(content, {
+    fileName: options.fileName ?? upload?.fileName,
+    mimeType: mimeType ?? upload?.mimeType
+  });
+
+  // Small files go inline; resuming always continues the chunked upload
+  if (file.size !== undefined && file.size <= INLINE_FILE_LIMIT && !upload?.uploadId) {
+    const bytes = await readAllBytes(file.content);
+    return {
+      ...rest,
+      fileName: file.fileName,
+      content: { data: toBase64(bytes), mimeType: file.mimeType }
+    };
+  }
+
+  const uploaded = await uploadFile(config, file.content, {
+    ...upload,
+    fileName: file.fileName,
+    mimeType: file.mimeType
+  }, requestOptions);
+  return { ...rest, fileName: file.fileName, content: { uploadId: uploaded.uploadId } };
+}
+
+/**
+ * Upload a file in chunks after resolving its content and MIME type
+ */
+async function makeUploadRequest(
+  config: ClientConfig,
+  input: FileInput,
+  options: UploadOptions = {},
+  requestOptions: RequestOptions = {}
+): Promise<UploadResult> {
+  const file = await resolveFileInput(input, options);
+  return uploadFile(config, file.content, {
+    ...options,
+    fileName: file.fileName,
+    mimeType: file.mimeType
+  }, requestOptions);
+}
+
+/**
+ * Add a completed call to the client's usage ledger
+ */
+function recordUsage(
+  config: ClientConfig,
+  response: { usage?: ExtractResponse['usage']; input_type?: string },
+  inputType: string,
+  requestOptions: RequestOptions
+) {
+  config.ledger?.record(response.usage, {
+    inputType: response.input_type ?? inputType,
+    tag: requestOptions.tag
+  });
+}
+
+/**
+ * Build the JSON request body, converting Zod schemas to JSON Schema.
+ * Validation settings are applied on the client and not sent.
+ */
+function toRequestBody(options: Exclude<ExtractOptions, { type: 'generate_schema' }>, stream: boolean): string {
+  const { validate: _validate, reissueAttempts: _reissueAttempts, ...body } = options;
+  return JSON.stringify({
+    ...body,
+    schema: body.schema && toJsonSchema(body.schema),
+    stream
+  });
+}
+
+/**
+ * Apply the `validate` option: check the result against the request's JSON
+ * Schema, repairing it first in repair mode
+ */
+function validateResult(
+  options: Exclude<ExtractOptions, { type: 'generate_schema' }>,
+  response: ExtractResponse,
+  attempts: number
+): { response: ExtractResponse; issues: ValidationIssue[] } {
+  if (!options.validate || !options.schema) {
+    return { response, issues: [] };
+  }
+
+  const schema = toJsonSchema(options.schema);
+  let result = response.result;
+  let repairs: ValidationRepair[] = [];
+  if (options.validate === 'repair') {
+    ({ value: result, repairs } = repairAgainstSchema(schema, result));
+  }
+  return {
+    response: { ...response, result, validation: { mode: options.validate, attempts, repairs } },
+    issues: validateAgainstSchema(schema, result)
+  };
+}
+
+/**
+ * Validate the result if requested, then parse it with the Zod schema it was
+ * requested with, if any
+ */
+function parseResult<T>(
+  options: Exclude<ExtractOptions, { type: 'generate_schema' }>,
+  raw: ExtractResponse,
+  attempts = 1
+): ExtractResponse<T> {
+  const { response, issues } = validateResult(options, raw, attempts);
+  if (issues.length > 0) {
+    throw new SchemaValidationError(`Extraction result does not match schema: ${formatIssues(issues)}`, response, issues);
+  }
+  if (!isZodSchema(options.schema)) {
+    return response;
+  }
+
+  const parsed = options.schema.safeParse(response.result);
+  if (!parsed.success) {
+    throw new SchemaValidationError(
+      `Extraction result does not match schema: ${formatIssues(parsed.error.issues)}`,
+      response,
+      parsed.error.issues
+    );
+  }
+
+  return { ...response, result: parsed.data };
+}
+
+/**
+ * Validate and parse a result. While `reissueAttempts` remain, an invalid
+ * result is requested again with the validation errors appended to the
+ * original prompt. `onValid` runs only once this result has passed, so
+ * failing results are never cached.
+ */
+async function finishResult<T>(
+  config: ClientConfig,
+  options: Exclude<ExtractOptions, { type: 'generate_schema' }>,
+  data: ExtractResponse,
+  requestOptions: RequestOptions,
+  attempt: ReissueState,
+  onValid?: () => Promise<void>
+): Promise<ExtractResponse<T>> {
+  const remaining = options.reissueAttempts ?? 0;
+  if (remaining > 0) {
+    const { issues } = validateResult(options, data, attempt.count);
+    if (issues.length > 0) {
+      const feedback = issues.map(issue => `- ${issue.path.join('.') || '(root)'}: ${issue.message}`).join('\n');
+      const prompt = [
+        attempt.prompt,
+        `The previous extraction did not match the schema:\n${feedback}\nReturn a result that fixes these errors.`
+      ].filter(Boolean).join('\n\n');
+      return makeRequest<T>(
+        config,
+        { ...options, prompt, reissueAttempts: remaining - 1 },
+        requestOptions,
+        { count: attempt.count + 1, prompt: attempt.prompt }
+      );
+    }
+  }
+  const result = parseResult<T>(options, data, attempt.count);
+  await onValid?.();
+  return result;
+}
+
+/** Requests made so far for one `extract()` call, and the caller's own prompt */
+interface ReissueState {
+  count: number;
+  prompt?: string;
+}
 
-  const response = await fetch('https://api.consoles.ai/v1/extract', {
+async function makeRequest<T = any>(
+  config: ClientConfig,
+  options: ExtractInput,
+  requestOptions: RequestOptions = {},
+  attempt: ReissueState = { count: 1, prompt: normalizeOptions(options).prompt }
+): Promise<ExtractResponse<T>> {
+  const cache = requestOptions.cache === false ? undefined : config.cache;
+  const key = cache ? await cacheKey(normalizeOptions(options)) : null;
+  if (cache && key) {
+    const hit = await cache.store.get(key);
+    if (hit) {
+      return finishResult<T>(config, normalizeOptions(options), { ...hit, cached: true }, requestOptions, attempt);
+    }
+  }
+
+  config.ledger?.check();
+  const normalizedOptions = await prepareOptions(config, normalizeOptions(options), requestOptions);
+
+  const response = await send(config, EXTRACT_PATH, {
     method: 'POST',
     headers: {
-      'Authorization': `Bearer ${apiKey}`,
       'Content-Type': 'application/json',
       'Accept': 'application/json'
     },
-    body: JSON.stringify(normalizedOptions)
-  });
+    body: toRequestBody(normalizedOptions, false)
+  }, requestOptions);
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    try {
-      const errorJson = JSON.parse(errorText);
-      const errorMessage = errorJson.error?.message || 'API request failed';
-      const errorCode = errorJson.error?.code;
-      const retryAfter = errorJson.retryAfter;
-      
-      // Handle specific error types
-      if (errorCode === 'STORAGE_ERROR' || errorMessage.includes('R2 bucket is not available')) {
-        throw new ExtractError(
-          'Storage configuration error: R2 bucket is not available. The request may still succeed with direct upload.',
-          response.status,
-          'STORAGE_ERROR',
-          errorJson.error,
-          retryAfter
-        );
-      } else if (errorCode === 'TIMEOUT' || response.status === 408) {
-        throw new ExtractError(
-          'Request timeout. Please use chunked upload for large files or try again later.',
-          408,
-          'TIMEOUT',
-          errorJson.error,
-          retryAfter || 5
-        );
-      } else {
-        throw new ExtractError(
-          errorMessage,
-          response.status,
-          errorCode,
-          errorJson.error,
-          retryAfter
-        );
+  const data = await readJson<ExtractResponse>(response);
+  recordUsage(config, data, normalizedOptions.type, requestOptions);
+  return finishResult<T>(
+    config,
+    normalizedOptions,
+    config.cache ? { ...data, cached: false } : data,
+    requestOptions,
+    attempt,
+    cache && key ? () => cache.store.set(key, data, cache.ttlMs) : undefined
+  );
+}
+
+/**
+ * Stream an extraction as Server-Sent Events.
+ *
+ * The API emits `delta` events carrying `{ delta: string }` fragments of the
+ * result JSON, followed by a single `done` event with the full ExtractResponse
+ * (or an `error` event shaped like a regular error body). Each fragment is
+ * re-parsed leniently so callers get a progressively completed result.
+ */
+async function* makeStreamRequest<T = any>(
+  config: ClientConfig,
+  options: ExtractInput,
+  requestOptions: RequestOptions = {}
+): AsyncGenerator<ExtractStreamEvent<T>> {
+  config.ledger?.check();
+  const normalizedOptions = await prepareOptions(config, normalizeOptions(options), requestOptions);
+
+  // Retries and the timeout cover establishing the stream, not reading it
+  const response = await send(config, EXTRACT_PATH, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream'
+    },
+    body: toRequestBody(normalizedOptions, true)
+  }, requestOptions);
+
+  // Fall back gracefully if the server answered without streaming
+  const contentType = response.headers.get('content-type') || '';
+  if (!contentType.includes('text/event-stream') || !response.body) {
+    const raw = await readJson<ExtractResponse>(response);
+    recordUsage(config, raw, normalizedOptions.type, requestOptions);
+    const data = parseResult<T>(normalizedOptions, raw);
+    yield { type: 'partial', result: data.result as DeepPartial<T> };
+    yield { type: 'done', response: data, usage: data.usage };
+    return;
+  }
+
+  const requestId = response.headers.get('x-request-id') ?? undefined;
+  let text = '';
+  let lastSnapshot: string | undefined;
+
+  for await (const event of readServerSentEvents(response.body)) {
+    switch (event.event) {
+      case 'delta': {
+        text += parseEventData(event, response).delta ?? '';
+        const partial = parseAsJSON(text);
+        if (partial === null) {
+          break;
+        }
+
+        // Only emit when the parsed result actually changed
+        const snapshot = JSON.stringify(partial);
+        if (snapshot !== lastSnapshot) {
+          lastSnapshot = snapshot;
+          yield { type: 'partial', result: partial as DeepPartial<T> };
+        }
+        break;
       }
-    } catch (e) {
-      if (e instanceof ExtractError) {
-        throw e;
+      case 'done': {
+        const raw = parseEventData<ExtractResponse>(event, response);
+        recordUsage(config, raw, normalizedOptions.type, requestOptions);
+        const data = parseResult<T>(normalizedOptions, raw);
+        yield { type: 'done', response: data, usage: data.usage };
+        return;
+      }
+      case 'error': {
+        const errorJson = parseEventData(event, response);
+        throw errorFromPayload(errorJson.status || response.status, errorJson, { requestId });
       }
-      throw new ExtractError(
-        `API request failed (${response.status}): ${errorText}`,
-        response.status
-      );
     }
   }
 
-  const data = await response.json();
-  return data as ExtractResponse;
+  throw new NetworkError('Extraction stream ended before the result was complete.', 'STREAM_INTERRUPTED', {
+    status: response.status,
+    requestId
+  });
+}
+
+/**
+ * Parse the JSON data of a stream event, reporting a malformed frame as an APIError
+ */
+function parseEventData<T = any>(event: ServerSentEvent, response: Response): T {
+  try {
+    return JSON.parse(event.data) as T;
+  } catch (error) {
+    throw new APIError(`Stream event \`${event.event}\` from the API is not valid JSON`, 'INVALID_RESPONSE', {
+      status: response.status,
+      requestId: response.headers.get('x-request-id') ?? undefined,
+      details: { event: event.event, data: event.data.slice(0, 500) },
+      cause: error
+    });
+  }
+}
+
+/**
+ * Generate a JSON Schema from a plain-English description of the data to extract
+ */
+async function makeGenerateSchemaRequest(
+  config: ClientConfig,
+  description: string,
+  format: GenerateSchemaFormatOptions = {},
+  requestOptions: RequestOptions = {}
+): Promise<GenerateSchemaResponse> {
+  config.ledger?.check();
+  const options: GenerateSchemaOptions = {
+    type: 'generate_schema',
+    description
+  };
+
+  const response = await send(config, EXTRACT_PATH, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    },
+    body: JSON.stringify(options)
+  }, requestOptions);
+
+  const data = await readJson(response);
+  recordUsage(config, data, options.type, requestOptions);
+  // The schema comes back as the extraction result, sometimes still serialized
+  let schema = data.schema ?? data.result;
+  if (typeof schema === 'string') {
+    try {
+      schema = JSON.parse(schema);
+    } catch {
+      throw new ExtractError('Generated schema is not valid JSON', 'INVALID_SCHEMA', { status: response.status, details: data });
+    }
+  }
+  if (!schema || typeof schema !== 'object') {
+    throw new ExtractError('API response did not include a generated schema', 'INVALID_SCHEMA', { status: response.status, details: data });
+  }
+
+  return {
+    id: data.id,
+    schema,
+    usage: data.usage,
+    zod: format.zod ? jsonSchemaToZod(schema) : undefined,
+    zodSource: format.zodSource ? jsonSchemaToZodSource(schema) : undefined
+  };
 }
 
-export { makeRequest as extract };
-export * from './types'; 
\ No newline at end of file
+export {
+  makeUploadRequest as upload,
+  makeRequest as extract,
+  makeStreamRequest as extractStream,
+  makeGenerateSchemaRequest as generateSchema
+};
+export { ExtractBatch } from './batch';
+export { FileSystemCacheStore, KeyValueCacheStore, MemoryCacheStore } from './cache';
+export { ExtractError, SchemaValidationError } from './errors';
+export { detectMimeType, isSupportedMimeType, SUPPORTED_MIME_TYPES } from './input';
+export { addDecimal, addUsage, emptyUsage } from './usage';
+export { isZodSchema, jsonSchemaToZod, jsonSchemaToZodSource, toJsonSchema } from './schema';
+export { formatIssues, repairAgainstSchema, validateAgainstSchema } from './validate';
+export type { RepairOutcome, ValidationIssue, ValidationRepair } from './validate';
+export * from './types';
@@ -0,0 +1,371 @@
+import { InvalidRequestError } from '../core/errors';
+import type { BinaryContent, FileInput } from './types';
+
+/**
+ * MIME types accepted for file extraction. Any `text/*` type is accepted as well.
+ */
+export const SUPPORTED_MIME_TYPES = [
+  // Documents
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/msword',
+  'application/rtf',
+  'application/json',
+  // Audio
+  'audio/mpeg',
+  'audio/wav',
+  'audio/mp4',
+  'audio/ogg',
+  // Video
+  'video/mp4',
+  'video/quicktime',
+  'video/x-msvideo',
+  'video/x-matroska',
+  'video/webm',
+  // Images
+  'image/jpeg',
+  'image/png',
+  'image/webp'
+];
+
+/** Aliases some platforms report for the types above */
+const MIME_ALIASES: Record<string, string> = {
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/mp3': 'audio/mpeg',
+  'audio/x-m4a': 'audio/mp4',
+  'audio/m4a': 'audio/mp4',
+  'image/jpg': 'image/jpeg',
+  'text/rtf': 'application/rtf',
+  'video/avi': 'video/x-msvideo'
+};
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  doc: 'application/msword',
+  rtf: 'application/rtf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  html: 'text/html',
+  htm: 'text/html',
+  json: 'application/json',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  ogg: 'audio/ogg',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  avi: 'video/x-msvideo',
+  mkv: 'video/x-matroska',
+  webm: 'video/webm',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+};
+
+/** Bytes read up front for type detection */
+const SNIFF_BYTES = 4096;
+
+/**
+ * A file input resolved to binary content with a known MIME type
+ */
+export interface ResolvedFile {
+  content: BinaryContent;
+  mimeType: string;
+  fileName?: string;
+  /** Size in bytes, unknown for streams */
+  size?: number;
+}
+
+/**
+ * Normalize a MIME type: drop parameters, lower-case and resolve aliases
+ */
+export function normalizeMimeType(mimeType: string): string {
+  const base = mimeType.split(';')[0].trim().toLowerCase();
+  return MIME_ALIASES[base] ?? base;
+}
+
+export function isSupportedMimeType(mimeType: string): boolean {
+  const normalized = normalizeMimeType(mimeType);
+  return normalized.startsWith('text/') || SUPPORTED_MIME_TYPES.includes(normalized);
+}
+
+function isTextMimeType(mimeType: string): boolean {
+  const normalized = normalizeMimeType(mimeType);
+  return normalized.startsWith('text/') || normalized === 'application/json';
+}
+
+/**
+ * Throw before any API call is made when a file type cannot be extracted
+ */
+export function assertSupportedMimeType(mimeType: string, fileName?: string): void {
+  if (!isSupportedMimeType(mimeType)) {
+    throw new InvalidRequestError(
+      `Unsupported file type "${mimeType}"${fileName ? ` for ${fileName}` : ''}. Supported types are PDF, DOCX, DOC, TXT, RTF, MP3, WAV, M4A, OGG, MP4, MOV, AVI, MKV, JPG, PNG and WEBP.`,
+      'UNSUPPORTED_FILE_TYPE',
+      { status: 415, details: { mimeType, fileName } }
+    );
+  }
+}
+
+/**
+ * Guess a MIME type from a file name's extension
+ */
+export function mimeTypeFromFileName(fileName: string): string | undefined {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return extension ? EXTENSION_MIME_TYPES[extension] : undefined;
+}
+
+/**
+ * Detect a MIME type from the leading bytes of a file
+ */
+export function detectMimeType(bytes: Uint8Array): string | undefined {
+  const ascii = (start: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+  const startsWith = (...signature: number[]) =>
+    signature.every((byte, index) => bytes[index] === byte);
+
+  if (ascii(0, 5) === '%PDF-') {
+    return 'application/pdf';
+  }
+  if (startsWith(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)) {
+    return 'image/png';
+  }
+  if (startsWith(0xff, 0xd8, 0xff)) {
+    return 'image/jpeg';
+  }
+  if (ascii(0, 4) === 'RIFF') {
+    switch (ascii(8, 4)) {
+      case 'WEBP': return 'image/webp';
+      case 'WAVE': return 'audio/wav';
+      case 'AVI ': return 'video/x-msvideo';
+    }
+  }
+  if (ascii(4, 4) === 'ftyp') {
+    const brand = ascii(8, 4);
+    if (brand === 'M4A ' || brand === 'M4B ') {
+      return 'audio/mp4';
+    }
+    return brand === 'qt  ' ? 'video/quicktime' : 'video/mp4';
+  }
+  if (startsWith(0x1a, 0x45, 0xdf, 0xa3)) {
+    return ascii(0, SNIFF_BYTES).includes('webm') ? 'video/webm' : 'video/x-matroska';
+  }
+  if (ascii(0, 4) === 'OggS') {
+    return 'audio/ogg';
+  }
+  // MP3 with an ID3 tag, or a bare MPEG audio frame header
+  if (ascii(0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0 && (bytes[1] & 0x06) !== 0)) {
+    return 'audio/mpeg';
+  }
+  if (ascii(0, 5) === '{\\rtf') {
+    return 'application/rtf';
+  }
+  if (startsWith(0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1)) {
+    return 'application/msword';
+  }
+  // DOCX is a zip archive whose first entries live under word/ or [Content_Types].xml
+  if (startsWith(0x50, 0x4b, 0x03, 0x04)) {
+    return ascii(0, SNIFF_BYTES).includes('word/')
+      ? 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      : 'application/zip';
+  }
+  if (looksLikeText(bytes)) {
+    return 'text/plain';
+  }
+  return undefined;
+}
+
+function looksLikeText(bytes: Uint8Array): boolean {
+  if (bytes.byteLength === 0) {
+    return false;
+  }
+  try {
+    // Streaming mode holds back a character cut off at the end instead of rejecting it
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, SNIFF_BYTES), { stream: true });
+  } catch {
+    return false;
+  }
+  // Reject control characters other than tab, newline and carriage return
+  return !bytes.subarray(0, SNIFF_BYTES).some(byte => byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d);
+}
+
+/**
+ * Resolve any supported file input to binary content with a detected MIME type.
+ *
+ * - Blob / File: read lazily; the name is taken from File objects
+ * - Uint8Array / Node Buffer / ArrayBuffer: used in place
+ * - ReadableStream: the first bytes are peeked for detection and replayed
+ * - string: a filesystem path (Node only), opened without reading it into memory
+ *
+ * An explicit `mimeType` wins over detection, which wins over the Blob type and
+ * the file extension, except that a text type from either is kept over text
+ * detected by sniffing. Unsupported types throw before anything is uploaded.
+ */
+export async function resolveFileInput(
+  input: FileInput,
+  hints: { fileName?: string; mimeType?: string } = {}
+): Promise<ResolvedFile> {
+  let content: BinaryContent;
+  let fileName = hints.fileName;
+  let declaredType: string | undefined;
+  let head: Uint8Array;
+  let size: number | undefined;
+
+  if (typeof input === 'string') {
+    const file = await openPath(input);
+    content = file.blob;
+    fileName ??= file.fileName;
+  } else {
+    content = input instanceof ArrayBuffer ? new Uint8Array(input) : input;
+  }
+
+  if (content instanceof Blob) {
+    fileName ??= typeof File !== 'undefined' && content instanceof File ? content.name : undefined;
+    declaredType = content.type || undefined;
+    head = new Uint8Array(await content.slice(0, SNIFF_BYTES).arrayBuffer());
+    size = content.size;
+  } else if (content instanceof Uint8Array) {
+    head = content.subarray(0, SNIFF_BYTES);
+    size = content.byteLength;
+  } else {
+    const peeked = await peekStream(content as ReadableStream<Uint8Array>, SNIFF_BYTES);
+    content = peeked.stream;
+    head = peeked.head;
+  }
+
+  // Sniffing cannot tell JSON, CSV or HTML from plain text, so a declared text type wins over it
+  const namedType = declaredType || (fileName && mimeTypeFromFileName(fileName)) || undefined;
+  const detectedType = detectMimeType(head);
+  const mimeType = normalizeMimeType(
+    hints.mimeType
+    || (detectedType === 'text/plain' && namedType && isTextMimeType(namedType) ? namedType : detectedType)
+    || namedType
+    || 'application/octet-stream'
+  );
+  assertSupportedMimeType(mimeType, fileName);
+
+  return { content, mimeType, fileName, size };
+}
+
+/**
+ * Read a resolved file fully into memory
+ */
+export async function readAllBytes(content: BinaryContent): Promise<Uint8Array> {
+  if (content instanceof Uint8Array) {
+    return content;
+  }
+  if (content instanceof ArrayBuffer) {
+    return new Uint8Array(content);
+  }
+  if (content instanceof Blob) {
+    return new Uint8Array(await content.arrayBuffer());
+  }
+  return new Uint8Array(await new Response(content).arrayBuffer());
+}
+
+/**
+ * Base64-encode bytes in any runtime
+ */
+export function toBase64(bytes: Uint8Array): string {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64');
+  }
+
+  // Encode in slices to stay below the argument limit of fromCharCode
+  let binary = '';
+  for (let offset = 0; offset < bytes.byteLength; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Read the first bytes of a stream and return a stream that still yields everything
+ */
+async function peekStream(
+  stream: ReadableStream<Uint8Array>,
+  length: number
+): Promise<{ head: Uint8Array; stream: ReadableStream<Uint8Array> }> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  let done = false;
+
+  while (received < length) {
+    const result = await reader.read();
+    if (result.done) {
+      done = true;
+      break;
+    }
+    chunks.push(result.value);
+    received += result.value.byteLength;
+  }
+
+  const head = new Uint8Array(Math.min(received, length));
+  let offset = 0;
+  for (const chunk of chunks) {
+    if (offset >= head.byteLength) {
+      break;
+    }
+    head.set(chunk.subarray(0, head.byteLength - offset), offset);
+    offset += Math.min(chunk.byteLength, head.byteLength - offset);
+  }
+
+  const replay = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(chunk));
+      if (done) {
+        controller.close();
+      }
+    },
+    async pull(controller) {
+      const result = await reader.read();
+      if (result.done) {
+        controller.close();
+      } else {
+        controller.enqueue(result.value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+
+  return { head, stream: replay };
+}
+
+/**
+ * Open a filesystem path as a Blob without reading it into memory.
+ * Imported lazily so edge bundles never touch node:fs.
+ */
+async function openPath(path: string): Promise<{ blob: Blob; fileName: string }> {
+  const fileName = path.split(/[\\/]/).pop() || path;
+
+  let fs: typeof import('node:fs');
+  try {
+    fs = await import('node:fs');
+  } catch (error) {
+    throw new InvalidRequestError(
+      'File paths are only supported in Node.js. Pass a Blob, Uint8Array or ReadableStream instead.',
+      'INVALID_FILE_INPUT',
+      { status: 400, details: { path }, cause: error }
+    );
+  }
+
+  try {
+    const blob = typeof fs.openAsBlob === 'function'
+      ? await fs.openAsBlob(path)
+      : new Blob([await fs.promises.readFile(path)]);
+    return { blob: blob as Blob, fileName };
+  } catch (error) {
+    throw new InvalidRequestError(
+      `Could not read file "${path}": ${error instanceof Error ? error.message : String(error)}`,
+      'INVALID_FILE_INPUT',
+      { status: 400, details: { path }, cause: error }
+    );
+  }
+}
@@ -0,0 +1,264 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { compilePattern } from './validate';
+
+/**
+ * Check whether a schema is a Zod schema rather than a plain JSON Schema object.
+ * Duck-typed so schemas created with a different copy of zod are still recognised.
+ */
+export function isZodSchema(schema: unknown): schema is z.ZodTypeAny {
+  if (schema instanceof z.ZodType) {
+    return true;
+  }
+  return !!schema
+    && typeof schema === 'object'
+    && '_def' in schema
+    && typeof (schema as any).safeParse === 'function';
+}
+
+/**
+ * Convert a Zod schema to JSON Schema so it can be sent to the API.
+ * Plain JSON Schema objects are returned unchanged.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny | Record<string, any>): Record<string, any> {
+  if (!isZodSchema(schema)) {
+    return schema;
+  }
+
+  // zod-to-json-schema types against `zod/v3`; comparing the two copies of the
+  // zod types structurally is too deep for the compiler, so hand it over as-is.
+  // Inline every definition; the API does not resolve $refs.
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema as unknown as Parameters<typeof zodToJsonSchema>[0], {
+    target: 'jsonSchema7',
+    $refStrategy: 'none'
+  }) as Record<string, any>;
+  return jsonSchema;
+}
+
+interface ConvertedSchema {
+  zod: z.ZodTypeAny;
+  source: string;
+}
+
+/**
+ * Build a live Zod schema equivalent to a JSON Schema object.
+ * Covers the subset of JSON Schema the API generates: primitive types, enums,
+ * const, arrays, objects with `required`, nullable type unions and anyOf/oneOf/allOf.
+ * Anything unrecognised becomes `z.any()`.
+ */
+export function jsonSchemaToZod(schema: Record<string, any>): z.ZodTypeAny {
+  return convertSchema(schema).zod;
+}
+
+/**
+ * Render Zod source code equivalent to a JSON Schema object, e.g.
+ * `z.object({ title: z.string(), tags: z.array(z.string()).optional() })`.
+ */
+export function jsonSchemaToZodSource(schema: Record<string, any>): string {
+  return convertSchema(schema).source;
+}
+
+function convertSchema(schema: Record<string, any>, indent = ''): ConvertedSchema {
+  const converted = convertType(schema, indent);
+  if (typeof schema.description === 'string') {
+    return {
+      zod: converted.zod.describe(schema.description),
+      source: `${converted.source}.describe(${JSON.stringify(schema.description)})`
+    };
+  }
+  return converted;
+}
+
+function convertType(schema: Record<string, any>, indent: string): ConvertedSchema {
+  if (!schema || typeof schema !== 'object') {
+    return { zod: z.any(), source: 'z.any()' };
+  }
+
+  if ('const' in schema) {
+    return { zod: z.literal(schema.const), source: `z.literal(${JSON.stringify(schema.const)})` };
+  }
+
+  if (Array.isArray(schema.enum)) {
+    return convertEnum(schema.enum);
+  }
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(variants)) {
+    return convertUnion(variants.map((variant: Record<string, any>) => convertSchema(variant, indent)));
+  }
+
+  if (Array.isArray(schema.allOf) && schema.allOf.length > 0) {
+    return schema.allOf
+      .map((part: Record<string, any>) => convertSchema(part, indent))
+      .reduce((left: ConvertedSchema, right: ConvertedSchema) => ({
+        zod: z.intersection(left.zod, right.zod),
+        source: `z.intersection(${left.source}, ${right.source})`
+      }));
+  }
+
+  // `type: ['string', 'null']` is a nullable string
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((type: string) => type !== 'null');
+    const base = types.length === 1
+      ? convertType({ ...schema, type: types[0] }, indent)
+      : convertUnion(types.map((type: string) => convertType({ ...schema, type }, indent)));
+    if (types.length === schema.type.length) {
+      return base;
+    }
+    return { zod: base.zod.nullable(), source: `${base.source}.nullable()` };
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return convertString(schema);
+    case 'number':
+    case 'integer':
+      return convertNumber(schema);
+    case 'boolean':
+      return { zod: z.boolean(), source: 'z.boolean()' };
+    case 'null':
+      return { zod: z.null(), source: 'z.null()' };
+    case 'array': {
+      const items = schema.items ? convertSchema(schema.items, indent) : { zod: z.any(), source: 'z.any()' };
+      let zod = z.array(items.zod);
+      let source = `z.array(${items.source})`;
+      if (typeof schema.minItems === 'number') {
+        zod = zod.min(schema.minItems);
+        source += `.min(${schema.minItems})`;
+      }
+      if (typeof schema.maxItems === 'number') {
+        zod = zod.max(schema.maxItems);
+        source += `.max(${schema.maxItems})`;
+      }
+      return { zod, source };
+    }
+    case 'object':
+      return convertObject(schema, indent);
+    default:
+      if (schema.properties) {
+        return convertObject(schema, indent);
+      }
+      return { zod: z.any(), source: 'z.any()' };
+  }
+}
+
+function convertEnum(values: unknown[]): ConvertedSchema {
+  if (values.length > 0 && values.every(value => typeof value === 'string')) {
+    const strings = values as [string, ...string[]];
+    return { zod: z.enum(strings), source: `z.enum(${JSON.stringify(strings)})` };
+  }
+  return convertUnion(values.map(value => ({
+    zod: z.literal(value as z.Primitive),
+    source: `z.literal(${JSON.stringify(value)})`
+  })));
+}
+
+function convertUnion(options: ConvertedSchema[]): ConvertedSchema {
+  if (options.length === 0) {
+    return { zod: z.never(), source: 'z.never()' };
+  }
+  if (options.length === 1) {
+    return options[0];
+  }
+  const [first, second, ...rest] = options.map(option => option.zod);
+  return {
+    zod: z.union([first, second, ...rest]),
+    source: `z.union([${options.map(option => option.source).join(', ')}])`
+  };
+}
+
+function convertString(schema: Record<string, any>): ConvertedSchema {
+  let zod = z.string();
+  let source = 'z.string()';
+
+  switch (schema.format) {
+    case 'email':
+      zod = zod.email();
+      source += '.email()';
+      break;
+    case 'uri':
+    case 'url':
+      zod = zod.url();
+      source += '.url()';
+      break;
+    case 'uuid':
+      zod = zod.uuid();
+      source += '.uuid()';
+      break;
+    case 'date-time':
+      zod = zod.datetime({ offset: true });
+      source += '.datetime({ offset: true })';
+      break;
+  }
+  if (typeof schema.minLength === 'number') {
+    zod = zod.min(schema.minLength);
+    source += `.min(${schema.minLength})`;
+  }
+  if (typeof schema.maxLength === 'number') {
+    zod = zod.max(schema.maxLength);
+    source += `.max(${schema.maxLength})`;
+  }
+  // Patterns JavaScript cannot compile are left unchecked rather than failing the conversion
+  const pattern = typeof schema.pattern === 'string' ? compilePattern(schema.pattern) : undefined;
+  if (pattern) {
+    zod = zod.regex(pattern);
+    source += `.regex(new RegExp(${JSON.stringify(schema.pattern)}${pattern.flags ? `, '${pattern.flags}'` : ''}))`;
+  }
+  return { zod, source };
+}
+
+function convertNumber(schema: Record<string, any>): ConvertedSchema {
+  let zod = z.number();
+  let source = 'z.number()';
+
+  if (schema.type === 'integer') {
+    zod = zod.int();
+    source += '.int()';
+  }
+  if (typeof schema.minimum === 'number') {
+    zod = zod.gte(schema.minimum);
+    source += `.gte(${schema.minimum})`;
+  }
+  if (typeof schema.exclusiveMinimum === 'number') {
+    zod = zod.gt(schema.exclusiveMinimum);
+    source += `.gt(${schema.exclusiveMinimum})`;
+  }
+  if (typeof schema.maximum === 'number') {
+    zod = zod.lte(schema.maximum);
+    source += `.lte(${schema.maximum})`;
+  }
+  if (typeof schema.exclusiveMaximum === 'number') {
+    zod = zod.lt(schema.exclusiveMaximum);
+    source += `.lt(${schema.exclusiveMaximum})`;
+  }
+  return { zod, source };
+}
+
+function convertObject(schema: Record<string, any>, indent: string): ConvertedSchema {
+  const properties: Record<string, Record<string, any>> = schema.properties ?? {};
+  const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+  const innerIndent = `${indent}  `;
+
+  const shape: z.ZodRawShape = {};
+  const lines: string[] = [];
+  for (const [key, property] of Object.entries(properties)) {
+    const converted = convertSchema(property, innerIndent);
+    const optional = !required.has(key);
+    shape[key] = optional ? converted.zod.optional() : converted.zod;
+    const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+    lines.push(`${innerIndent}${name}: ${converted.source}${optional ? '.optional()' : ''}`);
+  }
+
+  let zod: z.ZodTypeAny = z.object(shape);
+  let source = lines.length > 0 ? `z.object({\n${lines.join(',\n')}\n${indent}})` : 'z.object({})';
+
+  if (schema.additionalProperties === false) {
+    zod = (zod as z.AnyZodObject).strict();
+    source += '.strict()';
+  } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+    const rest = convertSchema(schema.additionalProperties, indent);
+    zod = (zod as z.AnyZodObject).catchall(rest.zod);
+    source += `.catchall(${rest.source})`;
+  }
+  return { zod, source };
+}
@@ -0,0 +1,112 @@
+import { NetworkError } from '../core/errors';
+
+/**
+ * A single Server-Sent Event as received from the API
+ */
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Read a `text/event-stream` body and yield each complete event.
+ * Events without an explicit `event:` field default to `message`.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await read(reader);
+      finished = done;
+      buffer += decoder.decode(value, { stream: !done });
+
+      // Events are separated by a blank line
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+        const event = parseEventBlock(block);
+        if (event) {
+          yield event;
+        }
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+
+      if (done) {
+        // Flush a trailing event that was not followed by a blank line
+        const event = parseEventBlock(buffer);
+        if (event) {
+          yield event;
+        }
+        return;
+      }
+    }
+  } finally {
+    // Left early (the consumer stopped, or the stream failed): close the
+    // connection so the server stops producing events
+    if (!finished) {
+      await reader.cancel().catch(() => {});
+    }
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parse one event block (the lines between two blank lines)
+ * @returns The event, or null for blocks carrying no data (comments, keep-alives)
+ */
+export function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  let id: string | undefined;
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    // Lines starting with a colon are comments (used as keep-alives)
+    if (!line || line.startsWith(':')) {
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    } else if (field === 'id') {
+      id = value;
+    }
+  }
+
+  if (data.length === 0) {
+    return null;
+  }
+
+  return { event, data: data.join('\n'), id };
+}
+
+/**
+ * Read the next chunk, reporting a dropped connection as a NetworkError.
+ * Aborts propagate unchanged.
+ */
+async function read(reader: ReadableStreamDefaultReader<Uint8Array>) {
+  try {
+    return await reader.read();
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw error;
+    }
+    throw new NetworkError(
+      `Extraction stream was interrupted: ${error instanceof Error ? error.message : String(error)}`,
+      'STREAM_INTERRUPTED',
+      { cause: error }
+    );
+  }
+}
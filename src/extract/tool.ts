@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { InvalidRequestError } from '../core/errors';
+import type { ExtractInput } from './types';
+
+/**
+ * Options shared by the Extract tool adapters (`mcp.extractTool()` and `consoles-ai/ai`)
+ */
+export interface ExtractToolOptions {
+  /** Zod or JSON Schema every extraction is run with */
+  schema?: z.ZodTypeAny | Record<string, any>;
+  /** Instructions sent with every extraction */
+  prompt?: string;
+  /** API key for the extractions; defaults to the client that created the tool, then `CONSOLES_API_KEY` */
+  apiKey?: string;
+  /** Tool description; derived from the prompt and schema when omitted */
+  description?: string;
+}
+
+/**
+ * Arguments an Extract tool is called with
+ */
+export interface ExtractToolArgs {
+  url?: string;
+  text?: string;
+  file?: { data: string; mimeType: string };
+  instructions?: string;
+}
+
+/**
+ * Zod shape of an Extract tool's arguments: exactly one of `url`, `text` or `file`,
+ * plus optional `instructions`
+ */
+export const extractToolShape = {
+  url: z.string().url().optional().describe('URL of a web page or document to extract from'),
+  text: z.string().optional().describe('Text to extract from'),
+  file: z.object({
+    data: z.string().describe('Base64-encoded file content'),
+    mimeType: z.string().describe('MIME type of the file, e.g. application/pdf')
+  }).optional().describe('File to extract from'),
+  instructions: z.string().optional().describe('Additional instructions for this extraction')
+};
+
+/**
+ * Build the extraction for a tool call
+ * @throws {InvalidRequestError} When not exactly one of `url`, `text` or `file` is given
+ */
+export function extractToolInput(args: ExtractToolArgs, options: ExtractToolOptions): ExtractInput {
+  const sources = [args.url, args.text, args.file].filter(source => source !== undefined);
+  if (sources.length !== 1) {
+    throw new InvalidRequestError('Provide exactly one of url, text or file.', 'INVALID_REQUEST');
+  }
+
+  const prompt = [options.prompt, args.instructions].filter(Boolean).join('\n\n') || undefined;
+  if (args.url !== undefined) {
+    return { type: 'url', content: args.url, schema: options.schema, prompt };
+  }
+  if (args.text !== undefined) {
+    return { type: 'text', content: args.text, schema: options.schema, prompt };
+  }
+  return { type: 'file', content: args.file!, schema: options.schema, prompt };
+}
+
+/**
+ * Describe an Extract tool from its prompt and the top-level fields of its schema
+ */
+export function describeExtractTool(prompt?: string, schema?: Record<string, any>): string {
+  const parts = ['Extract structured data from a URL, text or base64-encoded file.'];
+  if (prompt) {
+    parts.push(prompt.trim().replace(/([^.!?])$/, '$1.'));
+  }
+  const fields = Object.entries<Record<string, any>>(schema?.properties ?? {})
+    .map(([key, property]) => {
+      const type = Array.isArray(property.type) ? property.type.join(' | ') : property.type;
+      return type ? `${key} (${type})` : key;
+    });
+  if (fields.length > 0) {
+    parts.push(`Returns JSON with: ${fields.join(', ')}.`);
+  }
+  return parts.join(' ');
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { ValidationRepair } from './validate';
 
 export interface ExtractUsage {
     input_tokens: number;
@@ -9,10 +10,11 @@ export interface ExtractUsage {
     total_cost: string;
 }
 
-export interface ExtractResponse {
+export interface ExtractResponse<T = any> {
     id: string;
     status: 'success';
-    result: any;
+    /** The extracted data. Typed and validated when a Zod schema was supplied. */
+    result: T;
     usage: ExtractUsage;
     input_type?: 'file' | 'url' | 'text';
     input_details?: {
@@ -24,8 +26,34 @@ export interface ExtractResponse {
     };
     schema?: Record<string, any>;
     prompt?: string;
+    /** True when the response was served from the client's extraction cache */
+    cached?: boolean;
+    /** Set when the `validate` option was used */
+    validation?: {
+        mode: 'strict' | 'repair';
+        /** Requests made, including re-issues */
+        attempts: number;
+        /** Changes made to `result` in repair mode */
+        repairs: ValidationRepair[];
+    };
 }
 
+/**
+ * Event emitted by `consoles.extractStream()`.
+ * - `partial`: the result parsed so far; fields fill in as the extraction progresses
+ * - `done`: the final response, including usage for the whole extraction
+ */
+export type ExtractStreamEvent<T = any> =
+    | { type: 'partial'; result: DeepPartial<T> }
+    | { type: 'done'; response: ExtractResponse<T>; usage: ExtractUsage };
+
+/** Recursively optional version of T, used for partially streamed results */
+export type DeepPartial<T> = T extends Array<infer U>
+    ? Array<DeepPartial<U>>
+    : T extends object
+        ? { [K in keyof T]?: DeepPartial<T[K]> }
+        : T;
+
 /**
  * Base options for all extract operations
  * @example
@@ -79,6 +107,8 @@ export interface BaseExtractOptions {
     /** 
      * Schema definition for the expected output structure.
      * Supports both Zod schemas and plain JSON Schema objects.
+     * Zod schemas are converted to JSON Schema before sending, and the returned
+     * result is parsed with the same schema.
      * Common types: string, number, boolean, array, object
      * @example
      * ```typescript
@@ -116,9 +146,29 @@ export interface BaseExtractOptions {
      */
     schemaDescription?: string;
 
+    /**
+     * Check `result` against the schema on the client.
+     * - `strict`: throw `SchemaValidationError` listing every mismatch by path
+     * - `repair`: first coerce simple type mismatches (e.g. `"12"` to `12`) and
+     *   drop keys the schema does not declare, then throw for what remains
+     * Zod schemas are checked through their JSON Schema, then parsed as usual.
+     * @example
+     * validate: 'repair'
+     */
+    validate?: 'strict' | 'repair';
+
+    /**
+     * With `validate`, re-send an invalid extraction up to this many times with
+     * the validation errors appended to `prompt` (default: 0). Each attempt is
+     * billed. Not used by `extractStream()`.
+     */
+    reissueAttempts?: number;
+
     /** 
      * Enable streaming of extraction results.
      * Useful for processing large documents or getting partial results faster.
+     * Set automatically by `consoles.extractStream()`; `consoles.extract()` always
+     * waits for the complete result.
      */
     stream?: boolean;
 }
@@ -200,6 +250,12 @@ export interface UrlExtractOptions extends BaseExtractOptions {
  *     }
  *   }
  * }
+ * 
+ * // Example 3: Extract from a file on disk (Node only), MIME type detected
+ * const pathExtract: FileExtractOptions = {
+ *   type: 'file',
+ *   content: './reports/q3-earnings.pdf'
+ * }
  * ```
  */
 export interface FileExtractOptions extends BaseExtractOptions {
@@ -218,13 +274,26 @@ export interface FileExtractOptions extends BaseExtractOptions {
     type: 'file';
     /** 
      * The file content and type information.
-     * Supports both string data with mimeType or Blob objects.
+     * Supports base64 data with mimeType, a Blob, File, Uint8Array, Node Buffer,
+     * ArrayBuffer or ReadableStream, a filesystem path (Node only), or a reference
+     * to a file already uploaded with `consoles.upload()`.
+     * The MIME type of binary content is detected from its leading bytes.
+     * Small files are sent inline; larger ones are uploaded in chunks first.
      * Common mimeTypes: application/pdf, text/plain, application/json
      */
     content: {
         data: string;
         mimeType: string;
-    } | Blob;
+    } | FileInput | FileReference;
+
+    /** File name reported to the API; taken from File objects and paths when omitted */
+    fileName?: string;
+
+    /** Overrides MIME type detection for binary content */
+    mimeType?: string;
+
+    /** Chunked upload settings used when `content` is binary */
+    upload?: UploadOptions;
 }
 
 /**
@@ -264,15 +333,135 @@ export interface TextExtractOptions extends BaseExtractOptions {
     content: string;
 }
 
+/** Raw file content. Node Buffers are Uint8Arrays and File objects are Blobs. */
+export type BinaryContent = Blob | Uint8Array | ArrayBuffer | ReadableStream<Uint8Array>;
+
+/** Binary content or, in Node, a path to a file on disk */
+export type FileInput = BinaryContent | string;
+
+/** A file previously uploaded with `consoles.upload()`, extracted by reference */
+export interface FileReference {
+    uploadId: string;
+}
+
+export interface UploadProgress {
+    uploadId: string;
+    /** Bytes acknowledged by the API so far */
+    uploadedBytes: number;
+    /** Total size, unknown for streams until they end */
+    totalBytes?: number;
+    /** Index of the chunk that just finished */
+    chunkIndex: number;
+    totalChunks?: number;
+}
+
+export interface UploadOptions {
+    /** File name reported to the API */
+    fileName?: string;
+    /** MIME type of the content (detected from the content when omitted) */
+    mimeType?: string;
+    /** Chunk size in bytes (default: 50MB) */
+    chunkSize?: number;
+    /** Called after each chunk is acknowledged */
+    onProgress?: (progress: UploadProgress) => void;
+    /**
+     * Resume an earlier upload. Chunks the API already holds are skipped, so
+     * pass the same content that was used originally.
+     */
+    uploadId?: string;
+}
+
+export interface UploadResult {
+    uploadId: string;
+    fileName?: string;
+    mimeType: string;
+    size: number;
+    chunks: number;
+}
+
+/**
+ * Storage for cached extraction responses. Implementations handle expiry.
+ */
+export interface CacheStore {
+    get(key: string): Promise<ExtractResponse | undefined>;
+    set(key: string, value: ExtractResponse, ttlMs?: number): Promise<void>;
+    delete?(key: string): Promise<void>;
+}
+
+/** Minimal string key/value namespace, compatible with a Cloudflare KV binding */
+export interface KeyValueNamespace {
+    get(key: string): Promise<string | null>;
+    put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+    delete?(key: string): Promise<void>;
+}
+
+export interface CacheOptions {
+    /** Where responses are kept, e.g. `new MemoryCacheStore()` */
+    store: CacheStore;
+    /** How long entries stay valid in milliseconds (default: no expiry) */
+    ttlMs?: number;
+}
+
+/** Outcome of a single item in `consoles.extractBatch()` */
+export type BatchItemResult<T = any> =
+    | { index: number; input: ExtractInput; status: 'fulfilled'; response: ExtractResponse<T> }
+    | { index: number; input: ExtractInput; status: 'rejected'; error: Error };
+
+export interface BatchOptions {
+    /** Maximum number of extractions in flight (default: 5) */
+    concurrency?: number;
+    /** Stop starting new items after the first failure; the rest are reported as `BATCH_STOPPED` */
+    stopOnError?: boolean;
+    /** Called as each item completes, in completion order. Errors it throws are reported as uncaught and do not affect the batch */
+    onItem?: (item: BatchItemResult) => void;
+}
+
+export interface BatchResult<T = any> {
+    /** One entry per input, in input order */
+    items: BatchItemResult<T>[];
+    /** Usage summed over all successful items */
+    usage: ExtractUsage;
+    succeeded: number;
+    failed: number;
+}
+
 export interface GenerateSchemaOptions {
     type: 'generate_schema';
     description: string;
 }
 
+/**
+ * Output formats for `consoles.generateSchema()`.
+ * The JSON Schema is always returned; Zod renderings are opt-in.
+ */
+export interface GenerateSchemaFormatOptions {
+    /** Also return a live Zod schema that can be passed straight back to `extract` */
+    zod?: boolean;
+    /** Also return equivalent Zod source code, e.g. for pasting into a codebase */
+    zodSource?: boolean;
+}
+
+export interface GenerateSchemaResponse {
+    id: string;
+    /** The generated JSON Schema */
+    schema: Record<string, any>;
+    usage?: ExtractUsage;
+    /** Live Zod schema, present when requested with `zod: true` */
+    zod?: z.ZodTypeAny;
+    /** Zod source code, present when requested with `zodSource: true` */
+    zodSource?: string;
+}
+
 export type ExtractOptions = UrlExtractOptions | FileExtractOptions | TextExtractOptions | GenerateSchemaOptions;
 
 export type ExtractInput = Exclude<ExtractOptions, { type: 'generate_schema' }> | string;
 
+/**
+ * Extract options whose schema is a Zod schema.
+ * Results are parsed with the schema and typed as `z.infer<T>`.
+ */
+export type ZodExtractInput<T extends z.ZodTypeAny> = Exclude<ExtractInput, string> & { schema: T };
+
 export type ExtractType = 'text' | 'url' | 'file' | 'generate_schema';
 
 export interface TextExtractOptions extends BaseExtractOptions {
@@ -290,7 +479,7 @@ export interface FileExtractOptions extends BaseExtractOptions {
     content: {
         data: string;
         mimeType: string;
-    } | Blob;
+    } | FileInput | FileReference;
 }
 
 export interface GenerateSchemaOptions {
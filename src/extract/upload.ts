@@ -0,0 +1,251 @@
+import { readJson, send } from '../core/client';
+import type { ClientConfig } from '../core/client';
+import type { RequestOptions } from '../types';
+import { ConsolesError } from '../core/errors';
+import { ExtractError } from './errors';
+import type { BinaryContent, FileInput, FileReference, UploadOptions, UploadResult } from './types';
+
+const UPLOAD_PATH = '/uploads';
+const DEFAULT_CHUNK_SIZE = 50 * 1024 * 1024; // 50MB
+
+interface UploadSession {
+  uploadId: string;
+  chunkSize?: number;
+  uploadedChunks?: number[];
+}
+
+/**
+ * Check whether file content is binary rather than inline base64 data
+ */
+export function isBinaryContent(content: unknown): content is BinaryContent {
+  return (typeof Blob !== 'undefined' && content instanceof Blob)
+    || content instanceof Uint8Array
+    || content instanceof ArrayBuffer
+    || (typeof ReadableStream !== 'undefined' && content instanceof ReadableStream);
+}
+
+/**
+ * Check whether file content is binary or a filesystem path
+ */
+export function isFileInput(content: unknown): content is FileInput {
+  return typeof content === 'string' || isBinaryContent(content);
+}
+
+/**
+ * Check whether file content references an earlier upload
+ */
+export function isFileReference(content: unknown): content is FileReference {
+  return !!content && typeof content === 'object' && typeof (content as FileReference).uploadId === 'string';
+}
+
+/**
+ * Upload binary content in chunks.
+ *
+ * The upload is opened with `POST /uploads`, each chunk is sent with
+ * `PUT /uploads/:id/chunks/:index` (retried per the client's retry policy) and
+ * the upload is sealed with `POST /uploads/:id/complete`. Passing `uploadId`
+ * resumes an earlier upload, skipping chunks the API already acknowledged.
+ */
+export async function uploadFile(
+  config: ClientConfig,
+  content: BinaryContent,
+  options: UploadOptions = {},
+  requestOptions: RequestOptions = {}
+): Promise<UploadResult> {
+  const mimeType = options.mimeType
+    || (content instanceof Blob && content.type)
+    || 'application/octet-stream';
+  const totalBytes = sizeOf(content);
+
+  const session = options.uploadId
+    ? await getSession(config, options.uploadId, requestOptions)
+    : await createSession(config, {
+      fileName: options.fileName ?? (typeof File !== 'undefined' && content instanceof File ? content.name : undefined),
+      mimeType,
+      size: totalBytes,
+      chunkSize: options.chunkSize ?? DEFAULT_CHUNK_SIZE
+    }, requestOptions);
+
+  // A resumed upload must keep the chunk boundaries it was started with
+  const chunkSize = session.chunkSize ?? options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const totalChunks = totalBytes === undefined ? undefined : Math.max(1, Math.ceil(totalBytes / chunkSize));
+  const alreadyUploaded = new Set(session.uploadedChunks ?? []);
+
+  let chunkIndex = 0;
+  let uploadedBytes = 0;
+  for await (const chunk of readChunks(content, chunkSize, alreadyUploaded)) {
+    if (chunk.bytes) {
+      try {
+        await send(config, `${UPLOAD_PATH}/${session.uploadId}/chunks/${chunkIndex}`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/octet-stream'
+          },
+          body: chunk.bytes as Uint8Array<ArrayBuffer>
+        }, requestOptions);
+      } catch (error) {
+        if (requestOptions.signal?.aborted) {
+          throw error;
+        }
+        throw new ExtractError(
+          `Upload failed at chunk ${chunkIndex}. Pass uploadId "${session.uploadId}" to resume.`,
+          'UPLOAD_FAILED',
+          {
+            status: error instanceof ConsolesError ? error.status : 0,
+            requestId: error instanceof ConsolesError ? error.requestId : undefined,
+            details: { uploadId: session.uploadId, chunkIndex },
+            cause: error
+          }
+        );
+      }
+    }
+
+    uploadedBytes += chunk.size;
+    options.onProgress?.({
+      uploadId: session.uploadId,
+      uploadedBytes,
+      totalBytes,
+      chunkIndex,
+      totalChunks
+    });
+    chunkIndex++;
+  }
+
+  const response = await send(config, `${UPLOAD_PATH}/${session.uploadId}/complete`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    },
+    body: JSON.stringify({ chunks: chunkIndex, size: uploadedBytes })
+  }, requestOptions);
+  const data = await readJson(response);
+
+  return {
+    uploadId: session.uploadId,
+    fileName: data.fileName ?? options.fileName,
+    mimeType: data.mimeType ?? mimeType,
+    size: data.size ?? uploadedBytes,
+    chunks: chunkIndex
+  };
+}
+
+async function createSession(
+  config: ClientConfig,
+  file: { fileName?: string; mimeType: string; size?: number; chunkSize: number },
+  requestOptions: RequestOptions
+): Promise<UploadSession> {
+  const response = await send(config, UPLOAD_PATH, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    },
+    body: JSON.stringify(file)
+  }, requestOptions);
+  const session = await readJson<UploadSession>(response);
+  if (!session.uploadId) {
+    throw new ExtractError('API response did not include an upload id', 'UPLOAD_FAILED', { status: response.status, details: session });
+  }
+  return session;
+}
+
+async function getSession(config: ClientConfig, uploadId: string, requestOptions: RequestOptions): Promise<UploadSession> {
+  const response = await send(config, `${UPLOAD_PATH}/${uploadId}`, {
+    method: 'GET',
+    headers: {
+      'Accept': 'application/json'
+    }
+  }, requestOptions);
+  return { uploadId, ...(await readJson<Partial<UploadSession>>(response)) };
+}
+
+function sizeOf(content: BinaryContent): number | undefined {
+  if (content instanceof Blob) {
+    return content.size;
+  }
+  if (content instanceof Uint8Array || content instanceof ArrayBuffer) {
+    return content.byteLength;
+  }
+  return undefined;
+}
+
+/**
+ * Yield the content chunk by chunk. Chunks in `skip` come back without bytes
+ * and are not read into memory, except for streams which must be drained.
+ */
+async function* readChunks(
+  content: BinaryContent,
+  chunkSize: number,
+  skip: Set<number>
+): AsyncGenerator<{ size: number; bytes: Uint8Array | null }> {
+  if (content instanceof Blob) {
+    let index = 0;
+    for (let start = 0; start < content.size || index === 0; start += chunkSize, index++) {
+      const slice = content.slice(start, start + chunkSize);
+      yield {
+        size: slice.size,
+        bytes: skip.has(index) ? null : new Uint8Array(await slice.arrayBuffer())
+      };
+    }
+    return;
+  }
+
+  if (content instanceof Uint8Array || content instanceof ArrayBuffer) {
+    const bytes = content instanceof Uint8Array ? content : new Uint8Array(content);
+    let index = 0;
+    for (let start = 0; start < bytes.byteLength || index === 0; start += chunkSize, index++) {
+      const slice = bytes.subarray(start, start + chunkSize);
+      yield { size: slice.byteLength, bytes: skip.has(index) ? null : slice };
+    }
+    return;
+  }
+
+  // Streams are buffered until a full chunk is available
+  const reader = content.getReader();
+  const buffered: Uint8Array[] = [];
+  let bufferedBytes = 0;
+  let index = 0;
+
+  const flush = (size: number) => {
+    const chunk = new Uint8Array(size);
+    let offset = 0;
+    while (offset < size) {
+      const part = buffered[0];
+      const take = Math.min(part.byteLength, size - offset);
+      chunk.set(part.subarray(0, take), offset);
+      offset += take;
+      if (take === part.byteLength) {
+        buffered.shift();
+      } else {
+        buffered[0] = part.subarray(take);
+      }
+    }
+    bufferedBytes -= size;
+    return chunk;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (value) {
+        buffered.push(value);
+        bufferedBytes += value.byteLength;
+      }
+      while (bufferedBytes >= chunkSize) {
+        const bytes = flush(chunkSize);
+        yield { size: bytes.byteLength, bytes: skip.has(index) ? null : bytes };
+        index++;
+      }
+      if (done) {
+        if (bufferedBytes > 0 || index === 0) {
+          const bytes = flush(bufferedBytes);
+          yield { size: bytes.byteLength, bytes: skip.has(index) ? null : bytes };
+        }
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
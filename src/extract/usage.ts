@@ -0,0 +1,76 @@
+import type { ExtractUsage } from './types';
+
+/**
+ * Usage with every counter at zero
+ */
+export function emptyUsage(): ExtractUsage {
+  return {
+    input_tokens: 0,
+    output_tokens: 0,
+    total_tokens: 0,
+    input_cost: '0',
+    output_cost: '0',
+    total_cost: '0'
+  };
+}
+
+/**
+ * Sum two usage records. Costs are added as decimal strings so that summing
+ * thousands of fractional-cent amounts does not drift.
+ */
+export function addUsage(a: ExtractUsage, b: Partial<ExtractUsage> | undefined): ExtractUsage {
+  if (!b) {
+    return a;
+  }
+  return {
+    input_tokens: a.input_tokens + (b.input_tokens ?? 0),
+    output_tokens: a.output_tokens + (b.output_tokens ?? 0),
+    total_tokens: a.total_tokens + (b.total_tokens ?? 0),
+    input_cost: addDecimal(a.input_cost, b.input_cost),
+    output_cost: addDecimal(a.output_cost, b.output_cost),
+    total_cost: addDecimal(a.total_cost, b.total_cost)
+  };
+}
+
+/**
+ * Add two decimal strings exactly, e.g. `addDecimal('0.1', '0.2') === '0.3'`.
+ * A leading currency symbol is ignored; missing or malformed values count as zero.
+ */
+export function addDecimal(a: string | undefined, b: string | undefined): string {
+  const left = parseDecimal(a);
+  const right = parseDecimal(b);
+  const scale = Math.max(left.scale, right.scale);
+  const sum = left.units * 10n ** BigInt(scale - left.scale) + right.units * 10n ** BigInt(scale - right.scale);
+  return formatDecimal(sum, scale);
+}
+
+/**
+ * Compare two decimal strings, returning -1, 0 or 1
+ */
+export function compareDecimal(a: string | undefined, b: string | undefined): number {
+  const difference = addDecimal(a, negateDecimal(b));
+  return difference.startsWith('-') ? -1 : /[1-9]/.test(difference) ? 1 : 0;
+}
+
+function negateDecimal(value: string | undefined): string {
+  const { units, scale } = parseDecimal(value);
+  return formatDecimal(-units, scale);
+}
+
+function parseDecimal(value: string | number | undefined): { units: bigint; scale: number } {
+  const match = /^\s*\$?\s*(-?)(\d*)(?:\.(\d*))?\s*$/.exec(String(value ?? ''));
+  if (!match || (!match[2] && !match[3])) {
+    return { units: 0n, scale: 0 };
+  }
+  const [, sign, whole, fraction = ''] = match;
+  const units = BigInt(`${whole || '0'}${fraction}`);
+  return { units: sign ? -units : units, scale: fraction.length };
+}
+
+function formatDecimal(units: bigint, scale: number): string {
+  const negative = units < 0n;
+  const digits = (negative ? -units : units).toString().padStart(scale + 1, '0');
+  const whole = digits.slice(0, digits.length - scale);
+  const fraction = digits.slice(digits.length - scale).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
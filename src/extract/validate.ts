@@ -0,0 +1,307 @@
+/**
+ * A place where a result does not match its schema
+ */
+export interface ValidationIssue {
+  /** Keys and indexes from the result root to the offending value */
+  path: (string | number)[];
+  /** JSON Schema keyword that failed, e.g. `type`, `required` or `enum` (Zod issue codes for Zod parse failures) */
+  code: string;
+  message: string;
+}
+
+/**
+ * A change made to a result in `repair` mode
+ */
+export interface ValidationRepair {
+  path: (string | number)[];
+  /** `coerce`: converted to the schema's type; `drop`: removed an unknown key */
+  action: 'coerce' | 'drop';
+  message: string;
+}
+
+export interface RepairOutcome {
+  value: unknown;
+  repairs: ValidationRepair[];
+}
+
+type Schema = Record<string, any>;
+
+/**
+ * Check a value against a JSON Schema. Covers the keywords the API and Zod
+ * conversion generate: `type` (including type arrays), `enum`, `const`,
+ * `properties`, `required`, `additionalProperties`, `items`, `anyOf`/`oneOf`/`allOf`,
+ * string and array length bounds, `pattern`, and numeric bounds.
+ * Unknown keywords are ignored.
+ * @returns Every issue found, empty when the value is valid
+ */
+export function validateAgainstSchema(schema: Schema, value: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  check(schema, value, [], issues);
+  return issues;
+}
+
+/**
+ * Coerce simple type mismatches (numeric and boolean strings, numbers and
+ * booleans where strings are expected, single values where arrays are
+ * expected) and drop keys the schema does not declare. The input is not modified.
+ */
+export function repairAgainstSchema(schema: Schema, value: unknown): RepairOutcome {
+  const repairs: ValidationRepair[] = [];
+  return { value: repair(schema, value, [], repairs), repairs };
+}
+
+/**
+ * Render issues as one line each, e.g. `items.0.price: expected number, received string`
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+}
+
+function check(schema: Schema, value: unknown, path: (string | number)[], issues: ValidationIssue[]): void {
+  if (!schema || typeof schema !== 'object') {
+    return;
+  }
+
+  for (const sub of schema.allOf ?? []) {
+    check(sub, value, path, issues);
+  }
+  const branches: Schema[] | undefined = schema.anyOf ?? schema.oneOf;
+  if (branches && !branches.some(branch => validateAgainstSchema(branch, value).length === 0)) {
+    issues.push({ path, code: schema.anyOf ? 'anyOf' : 'oneOf', message: 'does not match any allowed schema' });
+    return;
+  }
+
+  const types = typesOf(schema);
+  if (types && !types.some(type => hasType(value, type))) {
+    issues.push({ path, code: 'type', message: `expected ${types.join(' or ')}, received ${typeName(value)}` });
+    return;
+  }
+  if (schema.enum && !schema.enum.some((option: unknown) => deepEqual(option, value))) {
+    issues.push({ path, code: 'enum', message: `expected one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}` });
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    issues.push({ path, code: 'const', message: `expected ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, code: 'minLength', message: `expected at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, code: 'maxLength', message: `expected at most ${schema.maxLength} characters` });
+    }
+    const pattern = schema.pattern !== undefined ? compilePattern(schema.pattern) : undefined;
+    if (pattern && !pattern.test(value)) {
+      issues.push({ path, code: 'pattern', message: `expected to match ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, code: 'minimum', message: `expected at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, code: 'maximum', message: `expected at most ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      issues.push({ path, code: 'exclusiveMinimum', message: `expected more than ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      issues.push({ path, code: 'exclusiveMaximum', message: `expected less than ${schema.exclusiveMaximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, code: 'minItems', message: `expected at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, code: 'maxItems', message: `expected at most ${schema.maxItems} items` });
+    }
+    if (schema.items && !Array.isArray(schema.items)) {
+      value.forEach((item, index) => check(schema.items, item, [...path, index], issues));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties: Record<string, Schema> = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        issues.push({ path: [...path, key], code: 'required', message: 'is required' });
+      }
+    }
+    for (const [key, property] of Object.entries(value)) {
+      if (properties[key]) {
+        if (property !== undefined) {
+          check(properties[key], property, [...path, key], issues);
+        }
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: [...path, key], code: 'additionalProperties', message: 'is not allowed' });
+      } else if (isPlainObject(schema.additionalProperties)) {
+        check(schema.additionalProperties, property, [...path, key], issues);
+      }
+    }
+  }
+}
+
+function repair(schema: Schema, value: unknown, path: (string | number)[], repairs: ValidationRepair[]): unknown {
+  if (!schema || typeof schema !== 'object') {
+    return value;
+  }
+
+  // Repair towards the first branch the value can be made to match
+  const branches: Schema[] | undefined = schema.anyOf ?? schema.oneOf;
+  if (branches) {
+    if (branches.some(branch => validateAgainstSchema(branch, value).length === 0)) {
+      return value;
+    }
+    for (const branch of branches) {
+      const attempt: ValidationRepair[] = [];
+      const repaired = repair(branch, value, path, attempt);
+      if (validateAgainstSchema(branch, repaired).length === 0) {
+        repairs.push(...attempt);
+        return repaired;
+      }
+    }
+    return value;
+  }
+  if (schema.allOf) {
+    return schema.allOf.reduce((current: unknown, sub: Schema) => repair(sub, current, path, repairs), value);
+  }
+
+  const types = typesOf(schema);
+  if (types && !types.some(type => hasType(value, type))) {
+    for (const type of types) {
+      const coerced = coerce(value, type);
+      if (coerced !== undefined) {
+        repairs.push({ path, action: 'coerce', message: `converted ${typeName(value)} ${JSON.stringify(value)} to ${type}` });
+        value = coerced;
+        break;
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items && !Array.isArray(schema.items)) {
+    return value.map((item, index) => repair(schema.items, item, [...path, index], repairs));
+  }
+
+  if (isPlainObject(value) && (schema.properties || schema.additionalProperties !== undefined)) {
+    const properties: Record<string, Schema> = schema.properties ?? {};
+    const keepUnknown = schema.additionalProperties === true || isPlainObject(schema.additionalProperties);
+    const result: Record<string, unknown> = {};
+    for (const [key, property] of Object.entries(value)) {
+      if (properties[key]) {
+        result[key] = repair(properties[key], property, [...path, key], repairs);
+      } else if (keepUnknown) {
+        result[key] = isPlainObject(schema.additionalProperties)
+          ? repair(schema.additionalProperties, property, [...path, key], repairs)
+          : property;
+      } else {
+        repairs.push({ path: [...path, key], action: 'drop', message: 'removed key not declared in the schema' });
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Convert a value to a JSON Schema type when that loses nothing
+ * @returns The converted value, or undefined when there is no safe conversion
+ */
+function coerce(value: unknown, type: string): unknown {
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      if (typeof value === 'string' && value.trim() !== '') {
+        // Tolerate thousands separators and currency symbols, e.g. "$1,299.00"
+        const number = Number(value.trim().replace(/^[$€£¥]/, '').replace(/,(?=\d{3}(\D|$))/g, ''));
+        if (Number.isFinite(number) && (type === 'number' || Number.isInteger(number))) {
+          return number;
+        }
+      }
+      if (typeof value === 'boolean') {
+        return value ? 1 : 0;
+      }
+      return undefined;
+    }
+    case 'boolean':
+      if (typeof value === 'string' && /^(true|false)$/i.test(value.trim())) {
+        return value.trim().toLowerCase() === 'true';
+      }
+      if (value === 0 || value === 1) {
+        return value === 1;
+      }
+      return undefined;
+    case 'string':
+      return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+    case 'array':
+      return value === undefined || value === null ? undefined : [value];
+    case 'null':
+      return value === '' || (typeof value === 'string' && value.trim().toLowerCase() === 'null') ? null : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Compile a JSON Schema pattern. Patterns written for engines without
+ * Unicode mode (`\-`, `[\w-]`) are retried without the flag.
+ * @returns The expression, or undefined when JavaScript cannot compile the pattern
+ */
+export function compilePattern(pattern: string): RegExp | undefined {
+  try {
+    return new RegExp(pattern, 'u');
+  } catch {
+    try {
+      return new RegExp(pattern);
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+function typesOf(schema: Schema): string[] | undefined {
+  const types: string[] | undefined = schema.type === undefined
+    ? undefined
+    : Array.isArray(schema.type) ? schema.type : [schema.type];
+  // OpenAPI-style `nullable: true`
+  return types && schema.nullable ? [...types, 'null'] : types;
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+  }
+  return true;
+}
+
+function typeName(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
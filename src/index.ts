@@ -1,19 +1,79 @@
-import { extract, ExtractError } from './extract/index';
-import type { ExtractInput, ExtractResponse } from './extract/types';
+import type { z } from 'zod';
+import {
+  extract,
+  extractStream,
+  generateSchema,
+  upload,
+  ExtractBatch
+} from './extract/index';
+import type {
+  BatchOptions,
+  ExtractInput,
+  ExtractResponse,
+  ExtractStreamEvent,
+  FileInput,
+  GenerateSchemaFormatOptions,
+  GenerateSchemaResponse,
+  UploadOptions,
+  UploadResult,
+  ZodExtractInput
+} from './extract/types';
 
+import { BrowserSession, createBrowserSession } from './browser/index';
+import { CloudComputeBackend, LocalComputeBackend, Sandbox, createInstance } from './compute/index';
+import type { ComputeBackend, ComputeKind } from './compute/types';
+import type { ClientConfig } from './core/client';
+import { resolveApiKey, resolveBaseURL, resolveHeaders } from './core/config';
+import { AuthenticationError, ConsolesError } from './core/errors';
+import { UsageLedger } from './core/ledger';
+import { policyForMethod, resolveRetryPolicy } from './core/retry';
 import MCP from './mcp';
-import { ConsolesSDK } from './types';
+import { BrowserOptions, ConsolesSDK, ConsolesOptions, Interceptor, RequestOptions, SandboxOptions, VMOptions } from './types';
 
 
 export class Consoles implements ConsolesSDK {
   private _apiKey?: string;
+  private _options: ConsolesOptions;
+  private _interceptors: Interceptor[];
+
+  /**
+   * Cumulative usage and cost of calls made through this instance, broken down
+   * by input type and by the `tag` request option. Enforces `options.budget`.
+   *
+   * @example
+   * ```typescript
+   * consoles.usage.on(event => alert(`Budget ${event.type}: $${event.usage.total_cost}`));
+   * await consoles.extract(doc, { tag: 'invoices' });
+   * console.log(consoles.usage.byTag.invoices.usage.total_cost);
+   * ```
+   */
+  readonly usage: UsageLedger;
 
   /**
    * Create a new Consoles SDK instance
-   * @param apiKey - Optional API key for authenticated services
+   * @param apiKeyOrOptions - Optional API key for authenticated services, or client options
+   *
+   * @example
+   * ```typescript
+   * // Key from CONSOLES_API_KEY or ~/.consoles.env
+   * const consoles = new Consoles();
+   *
+   * const proxied = new Consoles({
+   *   apiKey: process.env.CONSOLES_API_KEY,
+   *   baseURL: 'https://proxy.internal/consoles/v1',
+   *   defaultHeaders: { 'X-Team': 'data' },
+   *   retry: { maxAttempts: 5 },
+   *   timeoutMs: 60_000
+   * });
+   * ```
    */
-  constructor(apiKey?: string) {
-    this._apiKey = apiKey;
+  constructor(apiKeyOrOptions?: string | ConsolesOptions) {
+    this._options = typeof apiKeyOrOptions === 'string'
+      ? { apiKey: apiKeyOrOptions }
+      : { ...apiKeyOrOptions };
+    this._apiKey = this._options.apiKey;
+    this.usage = new UsageLedger(this._options.budget);
+    this._interceptors = [...(this._options.interceptors ?? [])];
   }
 
   /**
@@ -24,11 +84,61 @@ export class Consoles implements ConsolesSDK {
     this._apiKey = apiKey;
   }
 
+  /**
+   * Add an interceptor that runs around every API request made by this instance,
+   * after those passed in `options.interceptors`
+   * @param interceptor - `onRequest`, `onResponse` and `onError` hooks
+   * @returns Function that removes the interceptor
+   *
+   * @example
+   * ```typescript
+   * consoles.use({
+   *   onRequest: request => { request.headers['X-Trace-Id'] = traceId; },
+   *   onError: (error, request) => logger.warn({ path: request.path, error })
+   * });
+   * consoles.use(tracingInterceptor({ onSpan: span => metrics.record(span) }));
+   * ```
+   */
+  use(interceptor: Interceptor): () => void {
+    this._interceptors.push(interceptor);
+    return () => {
+      const index = this._interceptors.indexOf(interceptor);
+      if (index !== -1) {
+        this._interceptors.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Resolve the settings shared by every API call
+   */
+  private async _clientConfig(): Promise<ClientConfig> {
+    this._apiKey ??= await resolveApiKey();
+    if (!this._apiKey) {
+      throw new AuthenticationError(
+        'API key required for Extract service. Get one at https://consoles.ai',
+        'API_KEY_MISSING'
+      );
+    }
+    return {
+      apiKey: this._apiKey,
+      baseURL: resolveBaseURL(this._options),
+      fetch: this._options.fetch,
+      headers: resolveHeaders(this._options),
+      retry: this._options.retry,
+      timeoutMs: this._options.timeoutMs,
+      ledger: this.usage,
+      cache: this._options.cache,
+      interceptors: this._interceptors
+    };
+  }
+
   /**
    * Extract structured data from various content types (URLs, files, or text).
    * 
    * @param options - Extraction options or content string
-   * @returns Promise<ExtractResponse> - The extracted structured data
+   * @param requestOptions - Per-call retry, timeout and cancellation settings; `cache: false` bypasses the cache
+   * @returns Promise<ExtractResponse> - The extracted structured data, with `cached` set when a cache is configured
    * 
    * @example
    * ```typescript
@@ -45,25 +155,267 @@ export class Consoles implements ConsolesSDK {
    * });
    * ```
    * 
-   * @throws {ExtractError} When extraction fails with specific error details
-   * @throws {Error} When API key is not provided
+   * @example
+   * ```typescript
+   * // With a Zod schema the result is validated and typed
+   * const { result } = await consoles.extract({
+   *   type: 'text',
+   *   content: 'iPhone 15 Pro, $999',
+   *   schema: z.object({ name: z.string(), price: z.number() })
+   * });
+   * result.price; // number
+   * ```
+   * 
+   * @throws {RateLimitError | TimeoutError | StorageError | NetworkError | APIError} When the API call fails
+   * @throws {InvalidRequestError} When the API rejects the input, or before any call for unsupported files
+   * @throws {ExtractError} With code `BUDGET_EXCEEDED` once a blocking budget is spent
+   * @throws {SchemaValidationError} When the result does not match the supplied Zod schema
+   * @throws {AuthenticationError} When the API key is missing or rejected
    * @see {@link https://consoles.ai/docs/extract} Documentation
    */
-  async extract(options: ExtractInput): Promise<ExtractResponse> {
-    if (!this._apiKey) {
-      throw new Error('API key required for Extract service. Get one at https://consoles.ai');
-    }
+  async extract<T extends z.ZodTypeAny>(
+    options: ZodExtractInput<T>,
+    requestOptions?: RequestOptions
+  ): Promise<ExtractResponse<z.infer<T>>>;
+  async extract(options: ExtractInput, requestOptions?: RequestOptions): Promise<ExtractResponse>;
+  async extract(options: ExtractInput, requestOptions?: RequestOptions): Promise<ExtractResponse> {
+    const config = await this._clientConfig();
     
     try {
-      return await extract(this._apiKey, options);
+      return await extract(config, options, requestOptions);
     } catch (error) {
-      // Rethrow ExtractError instances directly
-      if (error instanceof ExtractError) {
-        throw error;
-      }
-      
-      // Convert other errors to a generic error
-      throw new Error(error instanceof Error ? error.message : 'Unknown error during extraction');
+      throw wrapError(error, 'Extraction failed', requestOptions);
+    }
+  }
+
+  /**
+   * Stream an extraction, yielding progressively completed partial results.
+   * The final `done` event carries the full response and its usage.
+   *
+   * @param options - Extraction options or content string
+   * @param requestOptions - Per-call retry, timeout and cancellation settings
+   * @returns AsyncIterable<ExtractStreamEvent> - Partial results followed by a final `done` event
+   *
+   * @example
+   * ```typescript
+   * for await (const event of consoles.extractStream({ type: 'url', content: pdfUrl, schema })) {
+   *   if (event.type === 'partial') render(event.result);
+   *   else console.log('Cost:', event.usage.total_cost);
+   * }
+   * ```
+   *
+   * @throws {ConsolesError} When the API call fails; `NetworkError` with code `STREAM_INTERRUPTED` if the stream drops
+   * @throws {SchemaValidationError} When the final result does not match the supplied Zod schema
+   * @throws {AuthenticationError} When the API key is missing or rejected
+   */
+  extractStream<T extends z.ZodTypeAny>(
+    options: ZodExtractInput<T>,
+    requestOptions?: RequestOptions
+  ): AsyncGenerator<ExtractStreamEvent<z.infer<T>>>;
+  extractStream(options: ExtractInput, requestOptions?: RequestOptions): AsyncGenerator<ExtractStreamEvent>;
+  async *extractStream(options: ExtractInput, requestOptions?: RequestOptions): AsyncGenerator<ExtractStreamEvent> {
+    const config = await this._clientConfig();
+
+    try {
+      yield* extractStream(config, options, requestOptions);
+    } catch (error) {
+      throw wrapError(error, 'Extraction failed', requestOptions);
+    }
+  }
+
+  /**
+   * Run many extractions with bounded concurrency.
+   * Items that hit a rate limit pause the whole pool until the limit resets,
+   * then retry according to the retry policy.
+   *
+   * @param inputs - Extraction options or content strings
+   * @param options - Concurrency, stop-on-error behaviour and a per-item callback
+   * @param requestOptions - Retry, timeout and cancellation settings applied to every item
+   * @returns ExtractBatch - Async-iterable over completions; await it for ordered results and total usage
+   *
+   * @example
+   * ```typescript
+   * const batch = consoles.extractBatch(documents, { concurrency: 10 });
+   * for await (const item of batch) {
+   *   console.log(item.index, item.status);
+   * }
+   * const { items, usage } = await batch;
+   * console.log('Total cost:', usage.total_cost);
+   * ```
+   *
+   * Items fail with an Error when no API key is available.
+   */
+  extractBatch<T extends z.ZodTypeAny>(
+    inputs: ZodExtractInput<T>[],
+    options?: BatchOptions,
+    requestOptions?: RequestOptions
+  ): ExtractBatch<z.infer<T>>;
+  extractBatch(inputs: ExtractInput[], options?: BatchOptions, requestOptions?: RequestOptions): ExtractBatch;
+  extractBatch(inputs: ExtractInput[], options?: BatchOptions, requestOptions: RequestOptions = {}): ExtractBatch {
+    // The key is resolved once, on the first item
+    let config: Promise<ClientConfig> | undefined;
+    // Items are extractions, retried by the batch itself
+    const retryPolicy = policyForMethod(resolveRetryPolicy(this._options.retry, requestOptions.retry), 'POST');
+
+    return new ExtractBatch(
+      inputs,
+      async (input, itemOptions) => extract(await (config ??= this._clientConfig()), input, itemOptions),
+      options,
+      requestOptions,
+      retryPolicy
+    );
+  }
+
+  /**
+   * Generate a JSON Schema from a plain-English description of the data you want.
+   * Optionally renders the schema as a live Zod object or as Zod source code.
+   *
+   * @param description - What the extracted data should look like
+   * @param format - Which Zod renderings to include alongside the JSON Schema
+   * @param requestOptions - Per-call retry, timeout and cancellation settings
+   * @returns Promise<GenerateSchemaResponse> - The generated schema
+   *
+   * @example
+   * ```typescript
+   * const { zod } = await consoles.generateSchema(
+   *   'Invoice with vendor name, total amount and line items',
+   *   { zod: true }
+   * );
+   * const invoice = await consoles.extract({ type: 'url', content: invoiceUrl, schema: zod! });
+   * ```
+   *
+   * @throws {ConsolesError} When the API call fails
+   * @throws {ExtractError} With code `INVALID_SCHEMA` when the generated schema cannot be read
+   * @throws {AuthenticationError} When the API key is missing or rejected
+   */
+  async generateSchema(
+    description: string,
+    format?: GenerateSchemaFormatOptions,
+    requestOptions?: RequestOptions
+  ): Promise<GenerateSchemaResponse> {
+    const config = await this._clientConfig();
+
+    try {
+      return await generateSchema(config, description, format, requestOptions);
+    } catch (error) {
+      throw wrapError(error, 'Schema generation failed', requestOptions);
+    }
+  }
+
+  /**
+   * Upload a large file in chunks so it can be extracted by reference.
+   * `extract` does this automatically for binary `file` content; call it directly
+   * to track progress separately or to resume an interrupted upload.
+   *
+   * @param content - Blob, File, Uint8Array, Buffer, ArrayBuffer, ReadableStream or (in Node) a file path
+   * @param options - File name, MIME type, chunk size, progress callback and resume id
+   * @param requestOptions - Per-call retry, timeout and cancellation settings
+   * @returns Promise<UploadResult> - The finished upload
+   *
+   * @example
+   * ```typescript
+   * const { uploadId } = await consoles.upload(video, {
+   *   onProgress: ({ uploadedBytes, totalBytes }) => console.log(`${uploadedBytes}/${totalBytes}`)
+   * });
+   * const result = await consoles.extract({ type: 'file', content: { uploadId }, schema });
+   * ```
+   *
+   * @throws {InvalidRequestError} With code `UNSUPPORTED_FILE_TYPE` before uploading a file that cannot be extracted
+   * @throws {ExtractError} With code `UPLOAD_FAILED`, `details.uploadId` to resume from and the failure as `cause`
+   * @throws {AuthenticationError} When the API key is missing or rejected
+   */
+  async upload(content: FileInput, options?: UploadOptions, requestOptions?: RequestOptions): Promise<UploadResult> {
+    const config = await this._clientConfig();
+
+    try {
+      return await upload(config, content, options, requestOptions);
+    } catch (error) {
+      throw wrapError(error, 'Upload failed', requestOptions);
+    }
+  }
+
+  /**
+   * Start a sandbox for running code and commands
+   * @param options - Language, resources, packages to install, and the `backend` to run on
+   * @param requestOptions - Abort signal, timeout and retry settings for provisioning
+   * @returns Handle with `run`, `exec`, streaming variants, file transfer and `close`
+   *
+   * @example
+   * ```typescript
+   * const sandbox = await consoles.sandbox({ language: 'python', pip: ['numpy'] });
+   * const { stdout } = await sandbox.run('import numpy; print(numpy.arange(3))');
+   * await sandbox.close();
+   *
+   * // Develop and test without cloud access
+   * const local = await consoles.sandbox({ backend: 'local' });
+   * ```
+   *
+   * @throws {ComputeError} With code `SETUP_FAILED` when packages could not be installed
+   * @throws {AuthenticationError} When the API key is missing or rejected (cloud backend)
+   */
+  async sandbox(options: SandboxOptions = {}, requestOptions?: RequestOptions): Promise<Sandbox> {
+    return this._createInstance('sandbox', options, requestOptions);
+  }
+
+  /**
+   * Start a virtual machine. Same handle as `sandbox()`; `run()` defaults to bash.
+   * @param options - Resources, image, packages, mounts, and the `backend` to run on
+   * @param requestOptions - Abort signal, timeout and retry settings for provisioning
+   * @returns Handle with `run`, `exec`, streaming variants, file transfer and `close`
+   *
+   * @example
+   * ```typescript
+   * const vm = await consoles.vm({ cpu: 4, memory: 8192, image: 'ubuntu:24.04', apt: ['ffmpeg'] });
+   * await vm.uploadFile('in.mov', video);
+   * await vm.exec('ffmpeg -i in.mov out.mp4');
+   * const mp4 = await vm.downloadFile('out.mp4');
+   * ```
+   */
+  async vm(options: VMOptions = {}, requestOptions?: RequestOptions): Promise<Sandbox> {
+    return this._createInstance('vm', options, requestOptions);
+  }
+
+  private async _createInstance(
+    kind: ComputeKind,
+    options: SandboxOptions | VMOptions,
+    requestOptions?: RequestOptions
+  ): Promise<Sandbox> {
+    const backend: ComputeBackend = options.backend === 'local'
+      ? new LocalComputeBackend()
+      : options.backend && options.backend !== 'cloud'
+        ? options.backend
+        : new CloudComputeBackend(() => this._clientConfig());
+
+    try {
+      return await createInstance(backend, kind, options, requestOptions);
+    } catch (error) {
+      throw wrapError(error, `Could not start ${kind}`, requestOptions);
+    }
+  }
+
+  /**
+   * Start a remote browser session
+   * @param options - Headless mode, proxy and user agent
+   * @param requestOptions - Abort signal, timeout and retry settings for starting the browser
+   * @returns Session with `goto`, `content`, `screenshot`, `click`, `type`, `evaluate`, `extract` and `close`
+   *
+   * @example
+   * ```typescript
+   * const browser = await consoles.browser({ headless: true });
+   * await browser.goto('https://example.com/login');
+   * await browser.type('#email', 'me@example.com');
+   * await browser.click('button[type=submit]');
+   * const { result } = await browser.extract(accountSchema);
+   * await browser.close();
+   * ```
+   *
+   * @throws {AuthenticationError} When the API key is missing or rejected
+   */
+  async browser(options: BrowserOptions = {}, requestOptions?: RequestOptions): Promise<BrowserSession> {
+    try {
+      return await createBrowserSession(() => this._clientConfig(), this, options, requestOptions);
+    } catch (error) {
+      throw wrapError(error, 'Could not start browser', requestOptions);
     }
   }
 
@@ -75,13 +427,158 @@ export class Consoles implements ConsolesSDK {
    * @returns MCP instance
    */
   mcp(name: string, version: string, description?: string) {
-    return new MCP({ name, version, description });
+    return new MCP({ name, version, description, client: this });
+  }
+}
+
+/**
+ * Pass SDK errors and aborts through unchanged. Anything else is a bug or an
+ * environment failure; wrap it so callers only handle ConsolesError, with the
+ * original kept as `cause`.
+ */
+function wrapError(error: unknown, message: string, requestOptions?: RequestOptions): unknown {
+  if (error instanceof ConsolesError || requestOptions?.signal?.aborted) {
+    return error;
   }
+  return new ConsolesError(
+    `${message}: ${error instanceof Error ? error.message : String(error)}`,
+    'UNKNOWN_ERROR',
+    { cause: error }
+  );
 }
 
 export default Consoles;
 
 // Re-export types
-export type { ExtractInput, ExtractResponse } from './extract/types';
-export { ExtractError } from './extract/index';
+export type {
+  BatchItemResult,
+  BatchOptions,
+  BatchResult,
+  BinaryContent,
+  CacheOptions,
+  CacheStore,
+  ExtractInput,
+  ExtractResponse,
+  ExtractStreamEvent,
+  ExtractUsage,
+  FileInput,
+  GenerateSchemaFormatOptions,
+  GenerateSchemaResponse,
+  FileReference,
+  KeyValueNamespace,
+  UploadOptions,
+  UploadProgress,
+  UploadResult,
+  ZodExtractInput
+} from './extract/types';
+export type {
+  BrowserOptions,
+  BudgetEvent,
+  BudgetOptions,
+  ConsolesOptions,
+  InterceptedRequest,
+  Interceptor,
+  RequestOptions,
+  RetryPolicy,
+  SandboxOptions,
+  UsageBreakdown,
+  VMOptions
+} from './types';
+export { UsageLedger } from './core/ledger';
+export { tracingInterceptor } from './core/tracing';
+export type { SpanAttributes, SpanLike, SpanRecord, TracerLike, TracingOptions } from './core/tracing';
+export {
+  APIError,
+  AuthenticationError,
+  ConsolesError,
+  InvalidRequestError,
+  NetworkError,
+  RateLimitError,
+  StorageError,
+  TimeoutError
+} from './core/errors';
+export type {
+  APIErrorCode,
+  AuthenticationErrorCode,
+  ConsolesErrorOptions,
+  InvalidRequestErrorCode,
+  NetworkErrorCode,
+  RateLimitErrorCode,
+  StorageErrorCode,
+  TimeoutErrorCode
+} from './core/errors';
+export type { ExtractErrorCode } from './extract/errors';
+export {
+  ExtractBatch,
+  ExtractError,
+  FileSystemCacheStore,
+  KeyValueCacheStore,
+  MemoryCacheStore,
+  SchemaValidationError,
+  detectMimeType,
+  jsonSchemaToZod,
+  jsonSchemaToZodSource,
+  repairAgainstSchema,
+  SUPPORTED_MIME_TYPES,
+  validateAgainstSchema
+} from './extract/index';
+export type { RepairOutcome, ValidationIssue, ValidationRepair } from './extract/index';
+export { BrowserError, BrowserSession } from './browser/index';
+export type {
+  BrowserErrorCode,
+  BrowserExtractOptions,
+  GotoOptions,
+  PageContent,
+  PageInfo,
+  ScreenshotOptions,
+  TypeOptions,
+  WaitUntil
+} from './browser/index';
+export {
+  CloudComputeBackend,
+  ComputeError,
+  LocalComputeBackend,
+  Sandbox
+} from './compute/index';
+export type {
+  ComputeBackend,
+  ComputeBackendOption,
+  ComputeErrorCode,
+  ComputeEvent,
+  ComputeKind,
+  ExecOptions,
+  ExecResult,
+  LocalComputeOptions,
+  RunOptions
+} from './compute/index';
 export { MCP };
+export {
+  DurableObjectSessionBackend,
+  EdgeStreamableHTTPTransport,
+  MCPSession,
+  MCPToolError,
+  MemorySessionBackend,
+  audioContent,
+  embeddedResource,
+  imageContent,
+  resourceLink
+} from './mcp';
+export type {
+  EdgeStreamableHTTPTransportOptions,
+  ExtractToolOptions,
+  MCPBinaryData,
+  MCPListener,
+  MCPPromptMessage,
+  MCPPromptOptions,
+  MCPPromptResult,
+  MCPResourceContent,
+  MCPResourceOptions,
+  MCPResourceParams,
+  MCPSessionBackend,
+  MCPSessionContext,
+  MCPToolContext,
+  MCPToolErrorPolicy,
+  MCPToolOptions,
+  MCPToolResult,
+  MemorySessionBackendOptions
+} from './mcp';
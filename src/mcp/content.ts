@@ -0,0 +1,89 @@
+import type {
+	AudioContent,
+	ContentBlock,
+	EmbeddedResource,
+	ImageContent,
+	ResourceLink
+} from '@modelcontextprotocol/sdk/types.js';
+import { toBase64 } from '../extract/input.js';
+
+/** Raw bytes, or data that is already base64-encoded */
+export type MCPBinaryData = Uint8Array | ArrayBuffer | string;
+
+/**
+ * An image for a tool result or prompt message
+ * @param data Image bytes, or a base64 string
+ * @param mimeType e.g. `image/png`
+ *
+ * @example
+ * ```typescript
+ * mcp.tool('screenshot', { url: z.string() }, async ({ url }) => imageContent(await capture(url), 'image/png'));
+ * ```
+ */
+export function imageContent(data: MCPBinaryData, mimeType: string): ImageContent {
+	return { type: 'image', data: encode(data), mimeType };
+}
+
+/**
+ * An audio clip for a tool result or prompt message
+ * @param data Audio bytes, or a base64 string
+ * @param mimeType e.g. `audio/wav`
+ */
+export function audioContent(data: MCPBinaryData, mimeType: string): AudioContent {
+	return { type: 'audio', data: encode(data), mimeType };
+}
+
+/**
+ * A link to a resource the client can read separately, instead of embedding its contents
+ * @param uri URI of the resource
+ * @param options Display name (defaults to the URI), description and MIME type
+ */
+export function resourceLink(
+	uri: string,
+	options: { name?: string; description?: string; mimeType?: string } = {}
+): ResourceLink {
+	return { type: 'resource_link', uri, name: options.name ?? uri, description: options.description, mimeType: options.mimeType };
+}
+
+/**
+ * The contents of a resource, embedded in a tool result or prompt message
+ * @param uri URI of the resource
+ * @param content Text, or bytes (sent as a base64 blob)
+ * @param mimeType Defaults to `text/plain` for text and `application/octet-stream` for bytes
+ */
+export function embeddedResource(uri: string, content: string | Uint8Array | ArrayBuffer, mimeType?: string): EmbeddedResource {
+	if (typeof content === 'string') {
+		return { type: 'resource', resource: { uri, mimeType: mimeType || 'text/plain', text: content } };
+	}
+	return { type: 'resource', resource: { uri, mimeType: mimeType || 'application/octet-stream', blob: encode(content) } };
+}
+
+/**
+ * Whether a value is a single MCP content block, as built by the helpers above
+ */
+export function isContentBlock(value: unknown): value is ContentBlock {
+	if (!value || typeof value !== 'object') {
+		return false;
+	}
+	const block = value as Record<string, unknown>;
+	switch (block.type) {
+		case 'text':
+			return typeof block.text === 'string';
+		case 'image':
+		case 'audio':
+			return typeof block.data === 'string' && typeof block.mimeType === 'string';
+		case 'resource_link':
+			return typeof block.uri === 'string';
+		case 'resource':
+			return !!block.resource && typeof block.resource === 'object';
+		default:
+			return false;
+	}
+}
+
+function encode(data: MCPBinaryData): string {
+	if (typeof data === 'string') {
+		return data;
+	}
+	return toBase64(data instanceof Uint8Array ? data : new Uint8Array(data));
+}
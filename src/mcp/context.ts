@@ -0,0 +1,113 @@
+import { CreateMessageResultSchema, ElicitResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import type {
+	CreateMessageRequest,
+	CreateMessageResult,
+	ElicitResult,
+	LoggingLevel,
+	ServerNotification,
+	ServerRequest
+} from '@modelcontextprotocol/sdk/types.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { z } from 'zod';
+import { isZodSchema, toJsonSchema } from '../extract/schema.js';
+
+/**
+ * What a tool handler can see of its call, and how it talks back to the client
+ */
+export interface MCPToolContext {
+	/** Aborted when the client cancels the call or the session ends */
+	signal: AbortSignal;
+	/** Session the call arrived on; undefined over stdio and for `mcp.callTool()` */
+	sessionId?: string;
+	/**
+	 * Report progress, when the client asked for it on this call (otherwise a no-op)
+	 * @param progress Work done so far; must increase with every report
+	 * @param total Total work, when known
+	 * @param message Human-readable description of the current step
+	 */
+	reportProgress(progress: number, total?: number, message?: string): Promise<void>;
+	/**
+	 * Send a log message to the client, unless it asked for a higher minimum level
+	 * @param level Syslog severity, from `debug` to `emergency`
+	 * @param message Log message
+	 * @param data Extra JSON-serializable details
+	 */
+	log(level: LoggingLevel, message: string, data?: Record<string, unknown>): Promise<void>;
+	/**
+	 * Ask the client's model for a completion
+	 * @param request A user prompt, or full `sampling/createMessage` parameters
+	 * @returns The model's message
+	 *
+	 * @throws {McpError} When the client does not support sampling
+	 */
+	sample(request: string | CreateMessageRequest['params']): Promise<CreateMessageResult>;
+	/**
+	 * Ask the user for input through the client
+	 * @param message What to ask
+	 * @param schema Zod object or JSON Schema of the form, with primitive fields only
+	 * @returns `accept` with the values entered, or `decline` / `cancel`
+	 *
+	 * @throws {McpError} When the client does not support elicitation
+	 */
+	elicit<T extends z.AnyZodObject>(message: string, schema: T): Promise<ElicitResult & { content?: z.infer<T> }>;
+	elicit(message: string, schema: Record<string, any>): Promise<ElicitResult>;
+}
+
+/** Severities in increasing order, as in RFC 5424 */
+const LOG_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+const DEFAULT_SAMPLING_MAX_TOKENS = 1024;
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Build the context for one tool call
+ * @param extra What the SDK passes a request handler
+ * @param logger Name the log messages are sent under
+ * @param minimumLevel Lowest level the client wants to receive, if it set one
+ */
+export function createToolContext(
+	extra: ToolExtra,
+	logger: string,
+	minimumLevel: () => LoggingLevel | undefined
+): MCPToolContext {
+	const progressToken = extra._meta?.progressToken;
+
+	return {
+		signal: extra.signal,
+		sessionId: extra.sessionId,
+		async reportProgress(progress, total, message) {
+			if (progressToken === undefined) {
+				return;
+			}
+			await extra.sendNotification({
+				method: 'notifications/progress',
+				params: { progressToken, progress, total, message }
+			});
+		},
+		async log(level, message, data) {
+			const minimum = minimumLevel();
+			if (minimum && LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minimum)) {
+				return;
+			}
+			await extra.sendNotification({
+				method: 'notifications/message',
+				params: { level, logger, data: data ? { message, ...data } : message }
+			});
+		},
+		async sample(request) {
+			const params = typeof request === 'string'
+				? { messages: [{ role: 'user' as const, content: { type: 'text' as const, text: request } }], maxTokens: DEFAULT_SAMPLING_MAX_TOKENS }
+				: request;
+			return extra.sendRequest({ method: 'sampling/createMessage', params }, CreateMessageResultSchema, { signal: extra.signal });
+		},
+		elicit: (async (message: string, schema: z.AnyZodObject | Record<string, any>) => {
+			// Elicitation forms are flat: keep only the keywords the protocol allows at the top level
+			const { type = 'object', properties, required } = isZodSchema(schema) ? toJsonSchema(schema) : schema;
+			return extra.sendRequest({
+				method: 'elicitation/create',
+				params: { message, requestedSchema: { type, properties, required } }
+			}, ElicitResultSchema, { signal: extra.signal });
+		}) as MCPToolContext['elicit']
+	};
+}
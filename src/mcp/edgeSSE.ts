@@ -117,8 +117,8 @@ export class EdgeSSETransport implements Transport {
 
 	async close(): Promise<void> {
 		if (!this.closed && this.controller) {
+			// The response body holds the stream's reader, so end it from the controller side
 			this.controller.close();
-			this.stream.cancel();
 			this.closed = true;
 			this.onclose?.();
 		}
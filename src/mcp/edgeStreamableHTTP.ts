@@ -0,0 +1,303 @@
+import { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, JSONRPCMessageSchema, MessageExtraInfo, RequestId } from '@modelcontextprotocol/sdk/types.js';
+
+const MAXIMUM_MESSAGE_SIZE = 4 * 1024 * 1024; // 4MB
+
+export interface EdgeStreamableHTTPTransportOptions {
+	/**
+	 * Session id handed to the client on initialization. Pass the Durable Object id
+	 * so later requests can be routed back to the same object. Defaults to a random UUID.
+	 */
+	sessionId?: string;
+	/** Answer requests with a single JSON body instead of an SSE stream */
+	enableJsonResponse?: boolean;
+}
+
+/**
+ * The responses still owed on one POST, and where to write them
+ */
+interface PendingStream {
+	pending: Set<RequestId>;
+	/** Set for SSE replies */
+	controller?: ReadableStreamDefaultController<Uint8Array>;
+	/** Collected responses for JSON replies */
+	responses: JSONRPCMessage[];
+	/** Called once every response has been sent */
+	finish?: () => void;
+}
+
+/**
+ * Streamable HTTP transport (a single endpoint, with sessions in the `Mcp-Session-Id`
+ * header), compatible with Cloudflare Workers, Durable Objects and other edge environments.
+ *
+ * - `POST` carries client messages. Requests are answered on an SSE stream that
+ *   closes after the last response, or with plain JSON when `enableJsonResponse`
+ *   is set or the client does not accept `text/event-stream`.
+ * - `GET` opens a stream for server-initiated messages.
+ * - `DELETE` ends the session.
+ */
+export class EdgeStreamableHTTPTransport implements Transport {
+	sessionId?: string;
+	private initialized = false;
+	private started = false;
+	private closed = false;
+	private streams = new Map<string, PendingStream>();
+	private requestStreams = new Map<RequestId, string>();
+	private standalone: ReadableStreamDefaultController<Uint8Array> | null = null;
+
+	onclose?: () => void;
+	onerror?: (error: Error) => void;
+	onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+
+	constructor(private options: EdgeStreamableHTTPTransportOptions = {}) {}
+
+	async start(): Promise<void> {
+		if (this.started) {
+			throw new Error(
+				'Transport already started! If using Server class, note that connect() calls start() automatically.',
+			);
+		}
+		this.started = true;
+	}
+
+	/**
+	 * Handles incoming Requests on the MCP endpoint
+	 */
+	async handleRequest(req: Request): Promise<Response> {
+		if (this.closed) {
+			return this.errorResponse(404, -32001, 'Session not found');
+		}
+		switch (req.method) {
+			case 'POST':
+				return this.handlePost(req);
+			case 'GET':
+				return this.handleGet(req);
+			case 'DELETE':
+				return this.handleDelete(req);
+		}
+		return new Response(null, { status: 405, headers: { 'Allow': 'GET, POST, DELETE' } });
+	}
+
+	private async handlePost(req: Request): Promise<Response> {
+		const accept = req.headers.get('accept') || '';
+		if (!accept.includes('application/json') && !accept.includes('text/event-stream') && !accept.includes('*/*')) {
+			return this.errorResponse(406, -32000, 'Not Acceptable: Client must accept application/json or text/event-stream');
+		}
+		const contentType = req.headers.get('content-type') || '';
+		if (!contentType.includes('application/json')) {
+			return this.errorResponse(415, -32000, `Unsupported content-type: ${contentType}`);
+		}
+		const contentLength = parseInt(req.headers.get('content-length') || '0', 10);
+		if (contentLength > MAXIMUM_MESSAGE_SIZE) {
+			return this.errorResponse(413, -32000, `Request body too large: ${contentLength} bytes`);
+		}
+
+		let body: unknown;
+		let messages: JSONRPCMessage[];
+		try {
+			body = await req.json();
+			messages = (Array.isArray(body) ? body : [body]).map(message => JSONRPCMessageSchema.parse(message));
+		} catch (error) {
+			this.onerror?.(error as Error);
+			return this.errorResponse(400, -32700, `Parse error: ${String(error)}`);
+		}
+
+		if (messages.some(isInitializeRequest)) {
+			if (this.initialized) {
+				return this.errorResponse(400, -32600, 'Invalid Request: Server already initialized');
+			}
+			if (messages.length > 1) {
+				return this.errorResponse(400, -32600, 'Invalid Request: Only one initialization request is allowed');
+			}
+			this.sessionId = this.options.sessionId ?? crypto.randomUUID();
+			this.initialized = true;
+		} else {
+			const invalid = this.validateSession(req);
+			if (invalid) {
+				return invalid;
+			}
+		}
+
+		const extra: MessageExtraInfo = { requestInfo: { headers: Object.fromEntries(req.headers) } };
+		const requests = messages.filter(isRequest);
+		// Notifications and responses only need an acknowledgement
+		if (requests.length === 0) {
+			messages.forEach(message => this.onmessage?.(message, extra));
+			return new Response(null, { status: 202, headers: this.sessionHeaders() });
+		}
+
+		const key = crypto.randomUUID();
+		const stream: PendingStream = { pending: new Set(requests.map(request => request.id)), responses: [] };
+		this.streams.set(key, stream);
+		requests.forEach(request => this.requestStreams.set(request.id, key));
+
+		if (this.options.enableJsonResponse || !accept.includes('text/event-stream')) {
+			const done = new Promise<void>(resolve => stream.finish = resolve);
+			messages.forEach(message => this.onmessage?.(message, extra));
+			await done;
+			const payload = Array.isArray(body) ? stream.responses : stream.responses[0];
+			return new Response(JSON.stringify(payload), {
+				headers: { ...this.sessionHeaders(), 'Content-Type': 'application/json' },
+			});
+		}
+
+		const readable = new ReadableStream<Uint8Array>({
+			start: (controller) => {
+				stream.controller = controller;
+			},
+			cancel: () => {
+				// The client went away; later responses for these requests are dropped
+				this.forget(key);
+			},
+		});
+		messages.forEach(message => this.onmessage?.(message, extra));
+		return this.sseResponse(readable);
+	}
+
+	private handleGet(req: Request): Response {
+		if (!(req.headers.get('accept') || '').includes('text/event-stream')) {
+			return this.errorResponse(406, -32000, 'Not Acceptable: Client must accept text/event-stream');
+		}
+		const invalid = this.validateSession(req);
+		if (invalid) {
+			return invalid;
+		}
+		if (this.standalone) {
+			return this.errorResponse(409, -32000, 'Conflict: Only one SSE stream is allowed per session');
+		}
+
+		const readable = new ReadableStream<Uint8Array>({
+			start: (controller) => {
+				this.standalone = controller;
+			},
+			cancel: () => {
+				this.standalone = null;
+			},
+		});
+		return this.sseResponse(readable);
+	}
+
+	private async handleDelete(req: Request): Promise<Response> {
+		const invalid = this.validateSession(req);
+		if (invalid) {
+			return invalid;
+		}
+		await this.close();
+		return new Response(null, { status: 200 });
+	}
+
+	async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+		if (this.closed) {
+			throw new Error('Not connected');
+		}
+
+		const response = isResponse(message);
+		const requestId = response ? message.id : options?.relatedRequestId;
+		const key = requestId !== undefined ? this.requestStreams.get(requestId) : undefined;
+		const stream = key ? this.streams.get(key) : undefined;
+
+		// Server-initiated messages go to the client's GET stream, if it opened one
+		if (!stream) {
+			if (response) {
+				throw new Error(`No connection established for request ID: ${String(requestId)}`);
+			}
+			this.standalone?.enqueue(encodeEvent(message));
+			return;
+		}
+
+		if (stream.controller) {
+			stream.controller.enqueue(encodeEvent(message));
+		} else if (response) {
+			stream.responses.push(message);
+		}
+
+		if (response) {
+			stream.pending.delete(requestId!);
+			this.requestStreams.delete(requestId!);
+			if (stream.pending.size === 0) {
+				stream.controller?.close();
+				stream.finish?.();
+				this.forget(key!);
+			}
+		}
+	}
+
+	async close(): Promise<void> {
+		if (this.closed) {
+			return;
+		}
+		this.closed = true;
+		for (const stream of this.streams.values()) {
+			stream.controller?.close();
+			stream.finish?.();
+		}
+		this.streams.clear();
+		this.requestStreams.clear();
+		this.standalone?.close();
+		this.standalone = null;
+		this.onclose?.();
+	}
+
+	/**
+	 * Check the `Mcp-Session-Id` header of a request after initialization
+	 * @returns An error response, or undefined when the session is valid
+	 */
+	private validateSession(req: Request): Response | undefined {
+		if (!this.initialized) {
+			return this.errorResponse(400, -32000, 'Bad Request: Server not initialized');
+		}
+		const sessionId = req.headers.get('mcp-session-id');
+		if (!sessionId) {
+			return this.errorResponse(400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+		}
+		if (sessionId !== this.sessionId) {
+			return this.errorResponse(404, -32001, 'Session not found');
+		}
+		return undefined;
+	}
+
+	private forget(key: string) {
+		const stream = this.streams.get(key);
+		stream?.pending.forEach(id => this.requestStreams.delete(id));
+		this.streams.delete(key);
+	}
+
+	private sessionHeaders(): Record<string, string> {
+		return this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {};
+	}
+
+	private sseResponse(stream: ReadableStream<Uint8Array>): Response {
+		return new Response(stream, {
+			headers: {
+				...this.sessionHeaders(),
+				'Content-Type': 'text/event-stream',
+				'Cache-Control': 'no-cache, no-transform',
+				'Connection': 'keep-alive',
+				'X-Accel-Buffering': 'no', // Disable Nginx buffering
+			},
+		});
+	}
+
+	private errorResponse(status: number, code: number, message: string): Response {
+		return new Response(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }), {
+			status,
+			headers: { ...this.sessionHeaders(), 'Content-Type': 'application/json' },
+		});
+	}
+}
+
+function encodeEvent(message: JSONRPCMessage): Uint8Array {
+	return new TextEncoder().encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
+
+function isRequest(message: JSONRPCMessage): message is JSONRPCMessage & { id: RequestId; method: string } {
+	return 'method' in message && 'id' in message;
+}
+
+function isResponse(message: JSONRPCMessage): message is JSONRPCMessage & { id: RequestId } {
+	return 'id' in message && ('result' in message || 'error' in message);
+}
+
+function isInitializeRequest(message: JSONRPCMessage): boolean {
+	return isRequest(message) && message.method === 'initialize';
+}
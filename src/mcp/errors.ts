@@ -0,0 +1,45 @@
+import { ConsolesError } from '../core/errors.js';
+import type { ConsolesErrorOptions } from '../core/errors.js';
+
+/**
+ * A tool failure meant for the client: its message is always returned in the
+ * `isError` result, even when the server redacts the messages of other errors.
+ *
+ * @example
+ * ```typescript
+ * mcp.tool('weather', { city: z.string() }, async ({ city }) => {
+ *   if (!known(city)) throw new MCPToolError(`Unknown city: ${city}`);
+ *   return forecast(city);
+ * });
+ * ```
+ */
+export class MCPToolError extends ConsolesError {
+	constructor(message: string, options: ConsolesErrorOptions = {}) {
+		super(message, 'TOOL_ERROR', options);
+		this.name = 'MCPToolError';
+	}
+}
+
+/**
+ * How the messages of errors thrown by tool handlers reach the client:
+ * `expose` returns them as they are, `redact` replaces them with a generic
+ * message, and a function picks the message itself. Messages of
+ * `MCPToolError`s are always returned as they are.
+ */
+export type MCPToolErrorPolicy = 'expose' | 'redact' | ((error: unknown, tool: string) => string);
+
+/**
+ * The message to return for an error thrown by a tool handler
+ * @param error What the handler threw
+ * @param tool Name of the tool
+ * @param policy Redaction policy of the tool or server
+ */
+export function toolErrorMessage(error: unknown, tool: string, policy: MCPToolErrorPolicy): string {
+	if (error instanceof MCPToolError || policy === 'expose') {
+		return error instanceof Error ? error.message : String(error);
+	}
+	if (policy === 'redact') {
+		return `Tool ${tool} failed`;
+	}
+	return policy(error, tool);
+}
@@ -1,46 +1,194 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SetLevelRequestSchema, SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult, ContentBlock, GetPromptResult, LoggingLevel, PromptMessage, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
 import type { DurableObjectState, DurableObject, DurableObjectNamespace } from '@cloudflare/workers-types';
-import { EdgeSSETransport } from './edgeSSE.js';
+import { audioContent, embeddedResource, imageContent, isContentBlock, resourceLink } from './content.js';
+import type { MCPBinaryData } from './content.js';
+import { createToolContext } from './context.js';
+import type { MCPToolContext } from './context.js';
+import { MCPToolError, toolErrorMessage } from './errors.js';
+import type { MCPToolErrorPolicy } from './errors.js';
+import { EdgeStreamableHTTPTransport } from './edgeStreamableHTTP.js';
+import { DurableObjectSessionBackend, MCPSession, MemorySessionBackend } from './sessions.js';
+import type { MCPSessionBackend } from './sessions.js';
 import { Hono, Context } from 'hono';
 import { z } from 'zod';
+import { toBase64 } from '../extract/input.js';
+import { isZodSchema, jsonSchemaToZod, toJsonSchema } from '../extract/schema.js';
+import { describeExtractTool, extractToolInput, extractToolShape } from '../extract/tool.js';
+import type { ExtractToolArgs, ExtractToolOptions } from '../extract/tool.js';
+import type { ExtractInput } from '../extract/types.js';
+import type { ConsolesSDK } from '../types.js';
+
+export type { ExtractToolOptions, MCPToolContext };
+export { audioContent, embeddedResource, imageContent, resourceLink };
+export type { MCPBinaryData };
+export { MCPToolError };
+export type { MCPToolErrorPolicy };
+export { EdgeStreamableHTTPTransport };
+export type { EdgeStreamableHTTPTransportOptions } from './edgeStreamableHTTP.js';
+export { DurableObjectSessionBackend, MCPSession, MemorySessionBackend };
+export type { MCPSessionBackend };
+export type { MCPSessionContext, MemorySessionBackendOptions } from './sessions.js';
 
 // Define the Env interface for type safety
 export interface Env {
 	MCP_OBJECT: DurableObjectNamespace;
 }
 
+/**
+ * A tool registered on an MCP server, as listed by `mcp.listTools()`
+ */
+export interface MCPToolInfo {
+	name: string;
+	description?: string;
+	/** Zod schema of the tool's arguments */
+	inputSchema?: z.ZodTypeAny;
+	/** Zod schema of the tool's structured content */
+	outputSchema?: z.ZodTypeAny;
+}
+
+/**
+ * What a tool handler returns: text, a content block or a list of them (see
+ * `imageContent()` and the other helpers), a JSON-serializable value, or a
+ * full MCP tool result
+ */
+export type MCPToolResult = string | number | boolean | ContentBlock | ContentBlock[] | CallToolResult | object | null | undefined;
+
+export interface MCPToolOptions {
+	description?: string;
+	/**
+	 * Zod object, or raw shape, of the tool's structured output. The handler's
+	 * return value is validated against it and sent as `structuredContent`,
+	 * along with its JSON as text.
+	 */
+	outputSchema?: z.AnyZodObject | z.ZodRawShape;
+	/** How the messages of thrown errors reach the client; defaults to the server's policy */
+	errors?: MCPToolErrorPolicy;
+}
+
+/**
+ * A message returned by a prompt. Plain-string content is sent as text; pass
+ * MCP content blocks for images (`{ type: 'image', data, mimeType }`) and
+ * embedded resources (`{ type: 'resource', resource: { uri, text | blob, mimeType } }`).
+ */
+export interface MCPPromptMessage {
+	role: 'user' | 'assistant';
+	content: string | PromptMessage['content'];
+}
+
+/**
+ * What a prompt handler returns: a single user message as text, a list of
+ * messages, or messages with a description
+ */
+export type MCPPromptResult = string | MCPPromptMessage[] | { description?: string; messages: MCPPromptMessage[] };
+
+export interface MCPPromptOptions {
+	description?: string;
+	/**
+	 * Suggest values for arguments as the user types, keyed by argument name.
+	 * Receives the partial value and the arguments filled in so far.
+	 */
+	complete?: Record<string, (value: string, context: { arguments: Record<string, string> }) => string[] | Promise<string[]>>;
+}
+
+type UriTemplateVariables<T extends string> = T extends `${string}{${infer Expression}}${infer Rest}`
+	? UriTemplateNames<Expression> | UriTemplateVariables<Rest>
+	: never;
+type UriTemplateNames<E extends string> = E extends `${'+' | '#' | '.' | '/' | ';' | '?' | '&'}${infer Names}`
+	? UriTemplateNames<Names>
+	: E extends `${infer Name},${infer Rest}` ? Name | UriTemplateNames<Rest> : E;
+
+/**
+ * Values of the placeholders in a resource URI template, e.g. `{ id: string }` for `users://{id}/profile`
+ */
+export type MCPResourceParams<T extends string> = { [K in UriTemplateVariables<T>]: string };
+
+/**
+ * What a resource handler returns: text, bytes (sent as a base64 blob), a
+ * JSON-serializable value, or MCP resource contents
+ */
+export type MCPResourceContent = string | Uint8Array | ArrayBuffer | ReadResourceResult | object;
+
+export interface MCPResourceOptions {
+	name?: string;
+	description?: string;
+	/** Defaults to `text/plain` for text, `application/json` for values and `application/octet-stream` for bytes */
+	mimeType?: string;
+	/** For URI templates: enumerate the concrete resources the template covers */
+	list?: () => Promise<{ uri: string; name?: string; description?: string; mimeType?: string }[]>;
+	/** For URI templates: suggest values for placeholders as the user types, keyed by placeholder name */
+	complete?: Record<string, (value: string) => string[] | Promise<string[]>>;
+}
+
+/**
+ * An HTTP server started by `mcp.listen()`
+ */
+export interface MCPListener {
+	/** Port the server is bound to */
+	port: number;
+	/** Stop accepting connections and close every session */
+	close(): Promise<void>;
+}
+
 export class MCP {
+	#config: { name: string; version: string; description?: string; toolErrors: MCPToolErrorPolicy };
+	/** Serves in-process calls; every session gets its own server with the same registrations */
 	#server: McpServer;
+	#registrations: ((server: McpServer) => unknown)[] = [];
 	#app: Hono;
+	#client?: ConsolesSDK;
+	#sessions?: MCPSessionBackend;
+	#tools = new Map<string, RegisteredTool>();
+	#subscriptions = new Map<McpServer, Set<string>>();
+	#logLevels = new WeakMap<McpServer, LoggingLevel>();
 	McpObject: any;
 
-	constructor(config: { name: string; version: string; description?: string }) {
-		// Initialize the MCP server
-		this.#server = new McpServer({
+	/**
+	 * @param config.sessions Where sessions are kept. Defaults to Durable Objects when the
+	 * request's env has an `MCP_OBJECT` binding, and to an in-memory store otherwise.
+	 * @param config.toolErrors How the messages of errors thrown by tool handlers reach
+	 * the client. Defaults to `expose`; use `redact` when they may carry internal details.
+	 */
+	constructor(config: {
+		name: string;
+		version: string;
+		description?: string;
+		client?: ConsolesSDK;
+		sessions?: MCPSessionBackend;
+		toolErrors?: MCPToolErrorPolicy;
+	}) {
+		this.#config = {
 			name: config.name,
 			version: config.version,
 			description: config.description,
-			capabilities: {
-				prompts: {},
-				tools: {},
-				resources: {}
-			},
-		});
+			toolErrors: config.toolErrors ?? 'expose'
+		};
+		this.#client = config.client;
+		this.#sessions = config.sessions;
+		this.#server = this.#createServer();
 
 		// Initialize Hono app
 		this.#app = new Hono();
-		
-		// Set up the route handler for MCP endpoints
+		const context = (c: Context) => ({
+			env: c.env,
+			createSession: (id: string) => new MCPSession(id, this.#createServer())
+		});
+
+		// Streamable HTTP: the session id travels in the `Mcp-Session-Id` header
+		this.#app.all('/mcp', async (c: Context) => {
+			return this.#backend(c.env).handle(c.req.raw, c.req.header('mcp-session-id'), context(c));
+		});
+
+		// Legacy HTTP+SSE: `/sse` opens the stream, `/message?sessionId=` carries client messages
 		this.#app.all('/*', async (c: Context) => {
-			const sessionId = c.req.query('sessionId');
-			const object = c.env.MCP_OBJECT.get(
-				sessionId ? c.env.MCP_OBJECT.idFromString(sessionId) : c.env.MCP_OBJECT.newUniqueId(),
-			);
-			return object.fetch(c.req.raw);
+			return this.#backend(c.env).handle(c.req.raw, c.req.query('sessionId'), context(c));
 		});
 
 		// Create the Durable Object class and attach it directly to this instance
-		const serverFactory = () => this.#server;
+		const serverFactory = () => this.#createServer();
 		this.McpObject = class extends MCPDurableObject {
 			constructor(state: DurableObjectState, env: Env) {
 				super(state, env, serverFactory);
@@ -52,135 +200,554 @@ export class MCP {
 	 * Add a tool to the MCP server
 	 * @param name Name of the tool
 	 * @param schema Schema for the tool's input parameters using zod or a raw object
-	 * @param handler Function that processes the input and returns a result
+	 * @param handler Function that processes the input and returns a result. Its
+	 * second argument carries the abort signal and session id, and reports
+	 * progress, logs, and sends sampling and elicitation requests to the client.
+	 * Strings are sent as text, content blocks as they are, and other values as
+	 * JSON. Thrown errors are returned as tool errors (`isError: true`).
+	 * @param options Description, output schema and error redaction policy
 	 * @returns The MCP instance for chaining
+	 *
+	 * @example
+	 * ```typescript
+	 * mcp.tool('crawl', { urls: z.array(z.string()) }, async ({ urls }, ctx) => {
+	 *   for (const [index, url] of urls.entries()) {
+	 *     ctx.signal.throwIfAborted();
+	 *     await ctx.reportProgress(index, urls.length, `Fetching ${url}`);
+	 *     await crawl(url, { signal: ctx.signal });
+	 *   }
+	 *   await ctx.log('info', 'Crawl finished', { pages: urls.length });
+	 *   return 'done';
+	 * });
+	 *
+	 * mcp.tool('forecast', { city: z.string() }, async ({ city }) => getForecast(city), {
+	 *   outputSchema: { temperature: z.number(), conditions: z.string() }
+	 * });
+	 * ```
 	 */
-	tool(name: string, schema: any, handler: (args: any) => any) {
-		// Wrap the handler to format the response according to MCP requirements
-		const wrappedHandler = async (args: any, extra: any) => {
-			const result = await handler(args);
-			
-			// If the result is already in the MCP format, return it as is
-			if (result && typeof result === 'object' && Array.isArray(result.content)) {
-				return result;
+	tool(
+		name: string,
+		schema: any,
+		handler: (args: any, ctx: MCPToolContext) => MCPToolResult | Promise<MCPToolResult>,
+		options: MCPToolOptions = {}
+	) {
+		const outputSchema = options.outputSchema && (isZodSchema(options.outputSchema)
+			? options.outputSchema as z.AnyZodObject
+			: z.object(options.outputSchema as z.ZodRawShape));
+
+		const wrappedHandler = (server: McpServer) => async (args: any, extra: any): Promise<CallToolResult> => {
+			let result: MCPToolResult;
+			try {
+				result = await handler(args, createToolContext(extra, name, () => this.#logLevels.get(server)));
+			} catch (error) {
+				// A cancelled call has no one left to read the result
+				if (extra.signal.aborted) {
+					throw error;
+				}
+				return toolError(toolErrorMessage(error, name, options.errors ?? this.#config.toolErrors));
 			}
-			
-			// Otherwise, convert the result to a text content item
-			return {
-				content: [
-					{
-						type: 'text',
-						text: String(result)
-					}
-				]
-			};
+			return toToolResult(name, result, outputSchema);
 		};
-		
-		// Register the tool with the MCP server
-		this.#server.tool(name, schema, wrappedHandler);
+
+		// Explicit type arguments: inferring them from the zod shapes is too deep for the compiler
+		this.#tools.set(name, this.#register(server => server.registerTool<any, any>(name, {
+			description: options.description,
+			inputSchema: schema,
+			outputSchema
+		}, wrappedHandler(server))));
+		return this;
+	}
+
+	/**
+	 * Add a tool that runs Consoles Extract with a preconfigured schema and prompt.
+	 * The tool takes exactly one of `url`, `text` or a base64 `file`, plus optional
+	 * extra `instructions`, and returns the extracted JSON as text and as
+	 * structured content. Extraction failures, and results that don't match an object
+	 * schema, are returned as tool errors.
+	 * @param name Name of the tool
+	 * @param options Schema, prompt, API key and an optional description override
+	 * @returns The MCP instance for chaining
+	 *
+	 * @example
+	 * ```typescript
+	 * mcp.extractTool('extract_invoice', {
+	 *   schema: z.object({ vendor: z.string(), total: z.number() }),
+	 *   prompt: 'Extract the vendor and the invoice total'
+	 * });
+	 * ```
+	 */
+	extractTool(name: string, options: ExtractToolOptions = {}) {
+		const jsonSchema = options.schema ? toJsonSchema(options.schema) : undefined;
+		// Only object schemas can describe structured tool output. Extra keys in
+		// the result are allowed, so `additionalProperties: false` is dropped.
+		const outputSchema: z.ZodTypeAny | undefined = jsonSchema?.type === 'object'
+			? (isZodSchema(options.schema) ? options.schema : jsonSchemaToZod(allowAdditionalProperties(jsonSchema)))
+			: undefined;
+
+		let client: Promise<ConsolesSDK> | undefined;
+		const getClient = () => client ??= (async () => {
+			if (!options.apiKey && this.#client) {
+				return this.#client;
+			}
+			// Loaded lazily: the client module imports this one
+			const { Consoles } = await import('../index.js');
+			return new Consoles(options.apiKey);
+		})();
+
+		const handler = async (args: ExtractToolArgs, extra: { signal: AbortSignal }) => {
+			let input: ExtractInput;
+			try {
+				input = extractToolInput(args, options);
+			} catch (error) {
+				return {
+					content: [{ type: 'text' as const, text: (error as Error).message }],
+					isError: true
+				};
+			}
+
+			try {
+				const response = await (await getClient()).extract(input, { signal: extra.signal });
+				const result = response.result;
+				const text = JSON.stringify(result, null, 2);
+				if (!outputSchema) {
+					return { content: [{ type: 'text' as const, text }] };
+				}
+				// The SDK rejects the whole call when structured content doesn't match
+				// the declared output schema, so report a mismatch as a tool error
+				const parsed = await outputSchema.safeParseAsync(result);
+				if (!parsed.success || !isPlainObject(result)) {
+					const issues = parsed.success
+						? ['result: Expected an object']
+						: parsed.error.issues.map((issue: z.ZodIssue) => `${issue.path.join('.') || 'result'}: ${issue.message}`);
+					return toolError(`Extraction result does not match the schema: ${issues.join('; ')}\n${text}`);
+				}
+				return { content: [{ type: 'text' as const, text }], structuredContent: result };
+			} catch (error) {
+				if (extra.signal.aborted) {
+					throw error;
+				}
+				const code = (error as { code?: string }).code;
+				return {
+					content: [{
+						type: 'text' as const,
+						text: `Extraction failed${code ? ` (${code})` : ''}: ${error instanceof Error ? error.message : String(error)}`
+					}],
+					isError: true
+				};
+			}
+		};
+
+		// Explicit type arguments: inferring them from the zod shapes is too deep for the compiler
+		this.#tools.set(name, this.#register(server => server.registerTool<any, any>(name, {
+			description: options.description ?? describeExtractTool(options.prompt, jsonSchema),
+			inputSchema: extractToolShape,
+			outputSchema: outputSchema as any
+		}, handler)));
+		return this;
+	}
+
+	/**
+	 * List the tools registered on this server
+	 * @returns Name, description and Zod schemas of every enabled tool
+	 */
+	listTools(): MCPToolInfo[] {
+		return [...this.#tools]
+			.filter(([, tool]) => tool.enabled)
+			.map(([name, tool]) => ({
+				name,
+				description: tool.description,
+				inputSchema: tool.inputSchema as unknown as z.ZodTypeAny | undefined,
+				outputSchema: tool.outputSchema as unknown as z.ZodTypeAny | undefined
+			}));
+	}
+
+	/**
+	 * Call a registered tool in this process, without a transport.
+	 * Arguments are validated against the tool's schema; invalid arguments,
+	 * unknown tools and handler failures are returned as tool errors, as a
+	 * remote client would see them.
+	 * @param name Name of the tool
+	 * @param args Tool arguments
+	 * @param options Abort signal for the call
+	 * @returns The tool result
+	 */
+	async callTool(name: string, args: Record<string, unknown> = {}, options: { signal?: AbortSignal } = {}): Promise<CallToolResult> {
+		const tool = this.#tools.get(name);
+		if (!tool || !tool.enabled) {
+			return toolError(`Tool ${name} not found`);
+		}
+
+		const signal = options.signal ?? new AbortController().signal;
+		const extra = {
+			signal,
+			requestId: 0,
+			sendNotification: async () => {},
+			sendRequest: async () => {
+				throw new Error('Requests to the client are not available in-process');
+			}
+		};
+
+		try {
+			if (!tool.inputSchema) {
+				return await (tool.handler as (extra: unknown) => Promise<CallToolResult>)(extra);
+			}
+			const parsed = await (tool.inputSchema as unknown as z.ZodTypeAny).safeParseAsync(args);
+			if (!parsed.success) {
+				const issues = parsed.error.issues.map((issue: z.ZodIssue) => `${issue.path.join('.') || 'arguments'}: ${issue.message}`);
+				return toolError(`Invalid arguments for tool ${name}: ${issues.join('; ')}`);
+			}
+			return await (tool.handler as (args: unknown, extra: unknown) => Promise<CallToolResult>)(parsed.data, extra);
+		} catch (error) {
+			if (signal.aborted) {
+				throw error;
+			}
+			return toolError(error instanceof Error ? error.message : String(error));
+		}
+	}
+
+	/**
+	 * Add a prompt template to the MCP server. Clients send prompt arguments as
+	 * strings, so use `z.coerce` for numbers and booleans.
+	 * @param name Name of the prompt
+	 * @param argsSchema Zod object, or raw shape, of the prompt's arguments
+	 * @param handler Function that builds the messages from the parsed arguments
+	 * @param options Description, and completions for arguments
+	 * @returns The MCP instance for chaining
+	 *
+	 * @example
+	 * ```typescript
+	 * mcp.prompt('review', { language: z.string(), code: z.string() }, ({ language, code }) => [
+	 *   { role: 'user', content: `Review this ${language} code:\n\n${code}` },
+	 *   { role: 'assistant', content: 'Here is my review:' }
+	 * ], {
+	 *   description: 'Review a snippet of code',
+	 *   complete: { language: value => ['go', 'python', 'typescript'].filter(l => l.startsWith(value)) }
+	 * });
+	 * ```
+	 */
+	prompt<T extends z.ZodRawShape>(
+		name: string,
+		argsSchema: T | z.ZodObject<T>,
+		handler: (args: z.infer<z.ZodObject<T>>) => MCPPromptResult | Promise<MCPPromptResult>,
+		options: MCPPromptOptions = {}
+	) {
+		const shape: z.ZodRawShape = { ...(argsSchema instanceof z.ZodObject ? argsSchema.shape : argsSchema) };
+		for (const [argument, complete] of Object.entries(options.complete ?? {})) {
+			if (!shape[argument]) {
+				throw new Error(`Prompt ${name} has no argument ${argument} to complete`);
+			}
+			shape[argument] = completable(shape[argument] as any, (value: string, context?: { arguments?: Record<string, string> }) =>
+				complete(value ?? '', { arguments: context?.arguments ?? {} })) as any;
+		}
+
+		// Explicit type arguments: inferring them from the zod shapes is too deep for the compiler
+		this.#register(server => server.registerPrompt<any>(name, {
+			description: options.description,
+			argsSchema: shape
+		}, async (args: any) => toPromptResult(await handler(args))));
 		return this;
 	}
 
 	/**
-	 * Add a resource to the MCP server
-	 * @param uri URI of the resource
+	 * Add a resource to the MCP server. A URI with `{placeholders}` (RFC 6570)
+	 * registers a resource template: clients read any matching URI, and the
+	 * handler receives the values of the placeholders.
+	 *
+	 * Strings are returned as text, bytes as a base64 `blob`, and other values
+	 * as JSON. Return `{ contents }` to send MCP resource contents as is.
+	 * @param uri URI of the resource, or a URI template
 	 * @param handler Function that returns the resource content
-	 * @param options Additional options for the resource
+	 * @param options Additional options for the resource, and for templates a `list` of concrete resources and completions for placeholders
 	 * @returns The MCP instance for chaining
+	 *
+	 * @example
+	 * ```typescript
+	 * mcp.resource('users://{id}/profile', async ({ id }) => db.users.find(id), {
+	 *   list: async () => (await db.users.all()).map(user => ({ uri: `users://${user.id}/profile`, name: user.name }))
+	 * });
+	 * mcp.resource('images://logo', async () => await readFile('logo.png'), { mimeType: 'image/png' });
+	 * ```
 	 */
-	resource(uri: string, handler: () => Promise<string | object>, options: {
-		name?: string;
-		description?: string;
-		mimeType?: string;
-	} = {}) {
+	resource<T extends string>(
+		uri: T,
+		handler: (params: MCPResourceParams<T>, uri: URL) => MCPResourceContent | Promise<MCPResourceContent>,
+		options: MCPResourceOptions = {}
+	) {
+		const metadata = {
+			description: options.description,
+			mimeType: options.mimeType || 'text/plain'
+		};
+		const read = async (url: URL, params: Record<string, string | string[]>, href = url.href) =>
+			toResourceResult(href, await handler(params as MCPResourceParams<T>, url), options.mimeType);
+
 		// Register the resource with the MCP server
-		this.#server.resource(
-			options.name || uri,                // Name of the resource
-			uri,                                // URI of the resource
-			{                                   // Metadata
-				description: options.description,
-				mimeType: options.mimeType || 'text/plain'
-			},
-			async () => {                       // Read callback
-				const result = await handler();
-				
-				// Format the result based on its type
-				if (typeof result === 'string') {
-					return {
-						contents: [{
-							uri,
-							mimeType: options.mimeType || 'text/plain',
-							text: result
-						}]
-					};
-				} else {
-					return {
-						contents: [{
-							uri,
-							mimeType: options.mimeType || 'application/json',
-							text: JSON.stringify(result)
-						}]
-					};
-				}
+		this.#register(server => {
+			this.#enableSubscriptions(server);
+			if (!/{[^}]+}/.test(uri)) {
+				return server.resource(options.name || uri, uri, metadata, url => read(url, {}, uri));
 			}
-		);
+			const template = new ResourceTemplate(uri, {
+				list: options.list && (async () => ({
+					resources: (await options.list!()).map(resource => ({ ...resource, name: resource.name ?? resource.uri }))
+				})),
+				complete: options.complete && Object.fromEntries(Object.entries(options.complete).map(([variable, complete]) =>
+					[variable, (value: string) => complete(value)]))
+			});
+			return server.resource(options.name || uri, template, metadata, (url, params) => read(url, params));
+		});
 		
 		return this;
 	}
 
+	/**
+	 * Tell connected clients subscribed to a resource that it changed, with a
+	 * `notifications/resources/updated` message. Reaches the sessions served by
+	 * this process (with Durable Objects, by this object).
+	 * @param uri URI of the resource that changed
+	 */
+	async notifyResourceUpdated(uri: string): Promise<void> {
+		const sends = [...this.#subscriptions]
+			.filter(([, uris]) => uris.has(uri))
+			.map(([server]) => server.server.sendResourceUpdated({ uri }).catch(() => {
+				// The session went away; its subscriptions are dropped when it closes
+			}));
+		await Promise.all(sends);
+	}
+
 	get fetch() {
 		return this.#app.fetch;
 	}
+
+	/**
+	 * Serve the MCP endpoints over HTTP from Node. Unless a `sessions` backend
+	 * was configured, sessions are kept in memory. Requires `@hono/node-server`.
+	 * @param port Port to listen on; 0 picks a free one
+	 * @param options Interface to bind to (default: all)
+	 * @returns The bound port, and a function that stops the server
+	 *
+	 * @example
+	 * ```typescript
+	 * const server = await mcp.listen(3000);
+	 * // Clients connect to http://localhost:3000/mcp, or to /sse for the legacy transport
+	 * await server.close();
+	 * ```
+	 */
+	async listen(port = 3000, options: { hostname?: string } = {}): Promise<MCPListener> {
+		const { serve } = await import('@hono/node-server');
+		return new Promise((resolve, reject) => {
+			const server = serve({ fetch: this.#app.fetch, port, hostname: options.hostname }, (info) => {
+				server.off('error', reject);
+				resolve({
+					port: info.port,
+					close: async () => {
+						// Ends open SSE streams, so the server can finish closing
+						await this.#backend({}).close?.();
+						await new Promise<void>((done, fail) => {
+							server.close(error => error ? fail(error) : done());
+							if ('closeAllConnections' in server) {
+								server.closeAllConnections();
+							}
+						});
+					}
+				});
+			});
+			server.once('error', reject);
+		});
+	}
+
+	/**
+	 * Serve one client over stdin and stdout, for desktop clients that launch the
+	 * server as a subprocess. stdout carries the protocol, so log to stderr.
+	 * @returns Resolves once the transport is connected, with a function that disconnects it
+	 *
+	 * @example
+	 * ```typescript
+	 * if (process.argv.includes('--stdio')) {
+	 *   await mcp.serveStdio();
+	 * }
+	 * ```
+	 */
+	async serveStdio(): Promise<{ close(): Promise<void> }> {
+		const { StdioServerTransport } = await import('@modelcontextprotocol/sdk/server/stdio.js');
+		const server = this.#createServer();
+		await server.connect(new StdioServerTransport());
+		return { close: () => server.close() };
+	}
+
+	/**
+	 * Apply a registration to the in-process server now and to every session server later
+	 */
+	#register<T>(apply: (server: McpServer) => T): T {
+		this.#registrations.push(apply);
+		return apply(this.#server);
+	}
+
+	#createServer(): McpServer {
+		const server = new McpServer({
+			name: this.#config.name,
+			version: this.#config.version,
+			description: this.#config.description,
+			capabilities: {
+				prompts: {},
+				tools: {},
+				resources: {}
+			},
+		});
+		// Tools log through their context, filtered by the level each client sets
+		server.server.registerCapabilities({ logging: {} });
+		server.server.setRequestHandler(SetLevelRequestSchema, request => {
+			this.#logLevels.set(server, request.params.level);
+			return {};
+		});
+		this.#registrations.forEach(apply => apply(server));
+		return server;
+	}
+
+	/**
+	 * Answer `resources/subscribe` and `resources/unsubscribe`, tracking the URIs each server's client is subscribed to
+	 */
+	#enableSubscriptions(server: McpServer) {
+		if (this.#subscriptions.has(server)) {
+			return;
+		}
+		const uris = new Set<string>();
+		this.#subscriptions.set(server, uris);
+		server.server.registerCapabilities({ resources: { subscribe: true } });
+		server.server.setRequestHandler(SubscribeRequestSchema, request => {
+			uris.add(request.params.uri);
+			return {};
+		});
+		server.server.setRequestHandler(UnsubscribeRequestSchema, request => {
+			uris.delete(request.params.uri);
+			return {};
+		});
+		const onclose = server.server.onclose;
+		server.server.onclose = () => {
+			this.#subscriptions.delete(server);
+			onclose?.();
+		};
+	}
+
+	#backend(env: any): MCPSessionBackend {
+		if (this.#sessions) {
+			return this.#sessions;
+		}
+		return env?.MCP_OBJECT ? durableObjectSessions : this.#sessions = new MemorySessionBackend();
+	}
+}
+
+const durableObjectSessions = new DurableObjectSessionBackend();
+
+/**
+ * A copy of a JSON Schema whose objects accept keys beyond their declared
+ * properties, i.e. without `additionalProperties: false`
+ */
+function allowAdditionalProperties(schema: unknown): any {
+	if (Array.isArray(schema)) {
+		return schema.map(allowAdditionalProperties);
+	}
+	if (!schema || typeof schema !== 'object') {
+		return schema;
+	}
+	const copy: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(schema)) {
+		if (key !== 'additionalProperties' || value !== false) {
+			copy[key] = allowAdditionalProperties(value);
+		}
+	}
+	return copy;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toolError(message: string): CallToolResult {
+	return { content: [{ type: 'text', text: message }], isError: true };
+}
+
+async function toToolResult(name: string, result: MCPToolResult, outputSchema?: z.AnyZodObject): Promise<CallToolResult> {
+	if (isCallToolResult(result)) {
+		return result;
+	}
+	if (outputSchema) {
+		const parsed = await outputSchema.safeParseAsync(result);
+		if (!parsed.success) {
+			const issues = parsed.error.issues.map((issue: z.ZodIssue) => `${issue.path.join('.') || 'result'}: ${issue.message}`);
+			return toolError(`Invalid output from tool ${name}: ${issues.join('; ')}`);
+		}
+		return {
+			content: [{ type: 'text', text: JSON.stringify(parsed.data, null, 2) }],
+			structuredContent: parsed.data
+		};
+	}
+	if (isContentBlock(result)) {
+		return { content: [result] };
+	}
+	if (Array.isArray(result) && result.length > 0 && result.every(isContentBlock)) {
+		return { content: result };
+	}
+	if (result === undefined) {
+		return { content: [] };
+	}
+	if (typeof result === 'object') {
+		return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+	}
+	return { content: [{ type: 'text', text: String(result) }] };
+}
+
+function isCallToolResult(result: unknown): result is CallToolResult {
+	return !!result && typeof result === 'object' && Array.isArray((result as CallToolResult).content);
+}
+
+function toResourceResult(uri: string, result: MCPResourceContent, mimeType?: string): ReadResourceResult {
+	if (typeof result === 'string') {
+		return { contents: [{ uri, mimeType: mimeType || 'text/plain', text: result }] };
+	}
+	if (result instanceof Uint8Array || result instanceof ArrayBuffer) {
+		const bytes = result instanceof Uint8Array ? result : new Uint8Array(result);
+		return { contents: [{ uri, mimeType: mimeType || 'application/octet-stream', blob: toBase64(bytes) }] };
+	}
+	if (result && typeof result === 'object' && Array.isArray((result as ReadResourceResult).contents)) {
+		return result as ReadResourceResult;
+	}
+	return { contents: [{ uri, mimeType: mimeType || 'application/json', text: JSON.stringify(result) }] };
+}
+
+function toPromptResult(result: MCPPromptResult): GetPromptResult {
+	if (typeof result === 'string') {
+		return { messages: [toPromptMessage({ role: 'user', content: result })] };
+	}
+	if (Array.isArray(result)) {
+		return { messages: result.map(toPromptMessage) };
+	}
+	return { description: result.description, messages: result.messages.map(toPromptMessage) };
+}
+
+function toPromptMessage(message: MCPPromptMessage): PromptMessage {
+	return {
+		role: message.role,
+		content: typeof message.content === 'string' ? { type: 'text', text: message.content } : message.content
+	};
 }
 
 /**
- * Durable Object implementation for MCP
+ * Durable Object implementation for MCP. Each object holds one session, over
+ * either the Streamable HTTP transport (`/mcp`) or the SSE transport (`/sse`).
  */
 class MCPDurableObject {
-	private transport: EdgeSSETransport | null = null;
-	private server: McpServer;
+	private session: MCPSession;
 	private state: DurableObjectState;
 	private env: Env;
 
 	constructor(state: DurableObjectState, env: Env, serverFactory: () => McpServer) {
 		this.state = state;
 		this.env = env;
-		this.server = serverFactory();
+		this.session = new MCPSession(this.state.id.toString(), serverFactory());
 	}
 
 	async fetch(request: Request): Promise<Response> {
-		const url = new URL(request.url);
-		
-		// Create the transport if it doesn't exist
-		if (!this.transport) {
-			const messageUrl = `${url.origin}${url.pathname.replace('sse', 'message')}`;
-			this.transport = new EdgeSSETransport(messageUrl, this.state.id.toString());
-		}
-		
-		// Handle SSE connection
-		if (request.method === 'GET' && url.pathname.endsWith('/sse')) {
-			await this.server.connect(this.transport);
-			return this.transport.sseResponse;
-		}
-		
-		// Handle message posting
-		if (request.method === 'POST' && url.pathname.endsWith('/message')) {
-			return this.transport.handlePostMessage(request);
-		}
-		
-		// Return information about the server for the root path
-		if (request.method === 'GET' && (url.pathname === '/' || url.pathname === '')) {
-			return new Response(JSON.stringify({
-				status: 'ready',
-				message: 'MCP server is running'
-			}), {
-				headers: {
-					'Content-Type': 'application/json'
-				}
-			});
-		}
-		
-		return new Response('Not found', { status: 404 });
+		return this.session.fetch(request);
 	}
 }
 
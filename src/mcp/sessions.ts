@@ -0,0 +1,247 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { DurableObjectNamespace } from '@cloudflare/workers-types';
+import { EdgeSSETransport } from './edgeSSE.js';
+import { EdgeStreamableHTTPTransport } from './edgeStreamableHTTP.js';
+
+/**
+ * What a session backend gets from the `MCP` router with each request
+ */
+export interface MCPSessionContext {
+	/** Bindings the request was served with, e.g. the Worker `env` */
+	env: any;
+	/** Start a session with its own server, carrying every tool, resource and prompt registered on the `MCP` instance */
+	createSession(id: string): MCPSession;
+}
+
+/**
+ * Where MCP sessions live between requests
+ */
+export interface MCPSessionBackend {
+	/**
+	 * Route a request to its session
+	 * @param request Request on `/mcp`, `/sse` or `/message`
+	 * @param sessionId The `Mcp-Session-Id` header or `sessionId` query parameter; undefined to start a session
+	 * @param context Bindings, and a factory for new sessions
+	 */
+	handle(request: Request, sessionId: string | undefined, context: MCPSessionContext): Promise<Response>;
+	/** Close every session held by the backend */
+	close?(): Promise<void>;
+}
+
+/**
+ * One client session: a server connected to the Streamable HTTP transport (`/mcp`)
+ * or the SSE transport (`/sse` and `/message`), whichever the client opened first
+ */
+export class MCPSession {
+	readonly id: string;
+	#server: McpServer;
+	#sse: EdgeSSETransport | null = null;
+	#streamable: EdgeStreamableHTTPTransport | null = null;
+	#closed = false;
+
+	constructor(id: string, server: McpServer) {
+		this.id = id;
+		this.#server = server;
+		const onclose = this.#server.server.onclose;
+		this.#server.server.onclose = () => {
+			this.#closed = true;
+			onclose?.();
+		};
+	}
+
+	async fetch(request: Request): Promise<Response> {
+		const url = new URL(request.url);
+
+		// Handle Streamable HTTP requests
+		if (url.pathname.endsWith('/mcp')) {
+			if (this.#sse) {
+				return sessionNotFound();
+			}
+			if (!this.#streamable) {
+				this.#streamable = new EdgeStreamableHTTPTransport({ sessionId: this.id });
+				await this.#server.connect(this.#streamable);
+			}
+			return this.#streamable.handleRequest(request);
+		}
+
+		if (this.#streamable && url.pathname.endsWith('/message')) {
+			return sessionNotFound();
+		}
+
+		// Handle SSE connection
+		if (request.method === 'GET' && url.pathname.endsWith('/sse')) {
+			if (this.#streamable) {
+				return sessionNotFound();
+			}
+			if (this.#sse) {
+				return new Response('SSE stream already open for this session', { status: 409 });
+			}
+			const messageUrl = `${url.origin}${url.pathname.replace('sse', 'message')}`;
+			this.#sse = new EdgeSSETransport(messageUrl, this.id);
+			await this.#server.connect(this.#sse);
+			return this.#sse.sseResponse;
+		}
+
+		// Handle message posting
+		if (request.method === 'POST' && url.pathname.endsWith('/message')) {
+			if (!this.#sse) {
+				return sessionNotFound();
+			}
+			return this.#sse.handlePostMessage(request);
+		}
+
+		// Return information about the server for the root path
+		if (request.method === 'GET' && (url.pathname === '/' || url.pathname === '')) {
+			return new Response(JSON.stringify({
+				status: 'ready',
+				message: 'MCP server is running'
+			}), {
+				headers: {
+					'Content-Type': 'application/json'
+				}
+			});
+		}
+
+		return new Response('Not found', { status: 404 });
+	}
+
+	/**
+	 * Whether a client has opened an SSE stream or initialized over Streamable HTTP
+	 */
+	get started(): boolean {
+		return !!(this.#sse || this.#streamable?.sessionId);
+	}
+
+	get closed(): boolean {
+		return this.#closed;
+	}
+
+	async close(): Promise<void> {
+		if (!this.#closed) {
+			await this.#server.close();
+			this.#closed = true;
+		}
+	}
+}
+
+/**
+ * Keeps each session in its own Durable Object, bound as `MCP_OBJECT`;
+ * the session id is the object id. Export `mcp.McpObject` as the Durable Object class.
+ */
+export class DurableObjectSessionBackend implements MCPSessionBackend {
+	async handle(request: Request, sessionId: string | undefined, context: MCPSessionContext): Promise<Response> {
+		const namespace: DurableObjectNamespace | undefined = context.env?.MCP_OBJECT;
+		if (!namespace) {
+			throw new Error('The MCP_OBJECT Durable Object binding is not configured');
+		}
+		let id;
+		try {
+			id = sessionId ? namespace.idFromString(sessionId) : namespace.newUniqueId();
+		} catch {
+			// Not an id this namespace issued
+			return sessionNotFound();
+		}
+		return namespace.get(id).fetch(request as any) as unknown as Promise<Response>;
+	}
+}
+
+export interface MemorySessionBackendOptions {
+	/** Close sessions that have not received a request for this long, in milliseconds (default: 30 minutes) */
+	idleTimeoutMs?: number;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Keeps sessions in a `Map` in this process, for Node, Bun, Deno and tests.
+ * A session is closed once it has been idle for `idleTimeoutMs`, counted from
+ * its last request; an open SSE stream does not keep it alive.
+ */
+export class MemorySessionBackend implements MCPSessionBackend {
+	#sessions = new Map<string, { session: MCPSession; lastSeen: number }>();
+	#idleTimeoutMs: number;
+	#timer: ReturnType<typeof setInterval> | undefined;
+
+	constructor(options: MemorySessionBackendOptions = {}) {
+		this.#idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+	}
+
+	async handle(request: Request, sessionId: string | undefined, context: MCPSessionContext): Promise<Response> {
+		await this.evict();
+
+		if (sessionId) {
+			const entry = this.#sessions.get(sessionId);
+			if (!entry) {
+				return sessionNotFound();
+			}
+			entry.lastSeen = Date.now();
+			const response = await entry.session.fetch(request);
+			if (entry.session.closed) {
+				this.#sessions.delete(sessionId);
+			}
+			return response;
+		}
+
+		const session = context.createSession(crypto.randomUUID());
+		const response = await session.fetch(request);
+		// Requests that do not open a transport, like the status page, leave nothing behind
+		if (session.started && !session.closed) {
+			this.#sessions.set(session.id, { session, lastSeen: Date.now() });
+			this.#schedule();
+		}
+		return response;
+	}
+
+	/**
+	 * Number of open sessions
+	 */
+	get size(): number {
+		return this.#sessions.size;
+	}
+
+	/**
+	 * Close sessions that are idle past the timeout, or were closed by their client.
+	 * Runs before every request and periodically while sessions are open.
+	 */
+	async evict(): Promise<void> {
+		const now = Date.now();
+		for (const [id, { session, lastSeen }] of this.#sessions) {
+			if (session.closed || now - lastSeen >= this.#idleTimeoutMs) {
+				this.#sessions.delete(id);
+				await session.close();
+			}
+		}
+		if (this.#sessions.size === 0 && this.#timer) {
+			clearInterval(this.#timer);
+			this.#timer = undefined;
+		}
+	}
+
+	async close(): Promise<void> {
+		const sessions = [...this.#sessions.values()];
+		this.#sessions.clear();
+		if (this.#timer) {
+			clearInterval(this.#timer);
+			this.#timer = undefined;
+		}
+		await Promise.all(sessions.map(({ session }) => session.close()));
+	}
+
+	#schedule() {
+		if (this.#timer) {
+			return;
+		}
+		this.#timer = setInterval(() => {
+			this.evict().catch(() => {});
+		}, Math.min(this.#idleTimeoutMs, 60_000));
+		// Never keep the process alive just to evict sessions
+		(this.#timer as { unref?: () => void }).unref?.();
+	}
+}
+
+function sessionNotFound(): Response {
+	return new Response(JSON.stringify({ jsonrpc: '2.0', error: { code: -32001, message: 'Session not found' }, id: null }), {
+		status: 404,
+		headers: { 'Content-Type': 'application/json' }
+	});
+}
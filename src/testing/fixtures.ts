@@ -0,0 +1,187 @@
+import { readEnv } from '../core/config';
+import { canonicalJson, sha256Hex } from '../core/hash';
+
+/** Set to `record` to capture live responses instead of replaying them */
+export const FIXTURES_MODE_ENV = 'CONSOLES_FIXTURES';
+
+/**
+ * One request/response pair captured from the API. Requests are identified by
+ * method, path and a hash of the body, so neither API keys nor the extracted
+ * content end up in fixture files.
+ */
+export interface RecordedExchange {
+  request: {
+    method: string;
+    path: string;
+    bodyHash?: string;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    /** Parsed body of JSON responses, kept readable for review */
+    json?: unknown;
+    /** Raw body of any other response, such as a streamed extraction */
+    body?: string;
+  };
+}
+
+export interface FixtureFile {
+  version: 1;
+  exchanges: RecordedExchange[];
+}
+
+export interface FixtureOptions {
+  /** Path of the JSON fixture file */
+  file: string;
+  /** Defaults to `record` when `CONSOLES_FIXTURES=record`, otherwise `replay` */
+  mode?: 'record' | 'replay';
+  /** Fetch used to reach the real API while recording */
+  fetch?: typeof fetch;
+}
+
+/**
+ * A fetch that records to, or replays from, a fixture file
+ */
+export interface Fixtures {
+  mode: 'record' | 'replay';
+  fetch: typeof fetch;
+  exchanges: RecordedExchange[];
+  /** Write recorded exchanges to the fixture file. Does nothing when replaying. */
+  save(): Promise<void>;
+}
+
+/** Response headers worth keeping; everything else is noise or sensitive */
+const RECORDED_HEADERS = ['content-type', 'retry-after'];
+
+/**
+ * Record real API responses to a fixture file, or replay them offline.
+ *
+ * While replaying, requests are matched on method, path and body hash. Repeated
+ * identical requests get the recorded responses in order (the last one repeats),
+ * so retries replay exactly as they happened. A request that was never recorded
+ * is answered with a 404 `FIXTURE_NOT_FOUND` error.
+ *
+ * @example
+ * ```typescript
+ * const fixtures = await createFixtures({ file: 'test/fixtures/invoice.json' });
+ * const consoles = new Consoles({ apiKey: process.env.CONSOLES_API_KEY ?? 'test', fetch: fixtures.fetch });
+ * await consoles.extract({ type: 'url', content: 'https://example.com/invoice.pdf' });
+ * await fixtures.save();
+ * ```
+ */
+export async function createFixtures(options: FixtureOptions): Promise<Fixtures> {
+  const mode = options.mode ?? (readEnv(FIXTURES_MODE_ENV) === 'record' ? 'record' : 'replay');
+  return mode === 'record' ? recorder(options) : replayer(options);
+}
+
+function recorder(options: FixtureOptions): Fixtures {
+  const exchanges: RecordedExchange[] = [];
+  const fetchImpl = options.fetch ?? fetch;
+
+  return {
+    mode: 'record',
+    exchanges,
+    fetch: async (input, init) => {
+      const request = new Request(input, init);
+      const key = await requestKey(request.clone());
+      const response = await fetchImpl(request);
+      const body = await response.text();
+
+      const headers: Record<string, string> = {};
+      for (const name of RECORDED_HEADERS) {
+        const value = response.headers.get(name);
+        if (value !== null) {
+          headers[name] = value;
+        }
+      }
+      exchanges.push({
+        request: key,
+        response: {
+          status: response.status,
+          headers,
+          ...(isJson(headers) ? { json: JSON.parse(body) } : { body })
+        }
+      });
+
+      return new Response(body, { status: response.status, headers: response.headers });
+    },
+    async save() {
+      const { mkdir, writeFile } = await import('node:fs/promises');
+      const path = await import('node:path');
+      const fixture: FixtureFile = { version: 1, exchanges };
+      await mkdir(path.dirname(options.file), { recursive: true });
+      await writeFile(options.file, `${JSON.stringify(fixture, null, 2)}\n`);
+    }
+  };
+}
+
+async function replayer(options: FixtureOptions): Promise<Fixtures> {
+  const { readFile } = await import('node:fs/promises');
+
+  let fixture: FixtureFile;
+  try {
+    fixture = JSON.parse(await readFile(options.file, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Could not load fixtures from ${options.file}: ${error instanceof Error ? error.message : String(error)}. ` +
+      `Run with ${FIXTURES_MODE_ENV}=record to capture them.`
+    );
+  }
+
+  // Recorded responses per request, consumed in order
+  const queues = new Map<string, RecordedExchange[]>();
+  for (const exchange of fixture.exchanges) {
+    const id = exchangeId(exchange.request);
+    queues.set(id, [...(queues.get(id) ?? []), exchange]);
+  }
+
+  return {
+    mode: 'replay',
+    exchanges: fixture.exchanges,
+    fetch: async (input, init) => {
+      const key = await requestKey(new Request(input, init));
+      const queue = queues.get(exchangeId(key));
+
+      if (!queue) {
+        return Response.json({
+          error: {
+            message: `No recorded response for ${key.method} ${key.path} in ${options.file}. Run with ${FIXTURES_MODE_ENV}=record to capture it.`,
+            code: 'FIXTURE_NOT_FOUND'
+          }
+        }, { status: 404 });
+      }
+
+      const { response } = queue.length > 1 ? queue.shift()! : queue[0];
+      const body = response.json !== undefined ? JSON.stringify(response.json) : response.body ?? '';
+      return new Response(body, { status: response.status, headers: response.headers });
+    },
+    async save() {}
+  };
+}
+
+async function requestKey(request: Request): Promise<RecordedExchange['request']> {
+  const url = new URL(request.url);
+  const key: RecordedExchange['request'] = {
+    method: request.method,
+    path: url.pathname + url.search
+  };
+
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    const bytes = await request.arrayBuffer();
+    if (bytes.byteLength > 0) {
+      // Hash JSON canonically so key order never breaks a replay
+      key.bodyHash = (request.headers.get('content-type') || '').includes('application/json')
+        ? await sha256Hex(canonicalJson(JSON.parse(new TextDecoder().decode(bytes))))
+        : await sha256Hex(bytes);
+    }
+  }
+  return key;
+}
+
+function exchangeId(request: RecordedExchange['request']): string {
+  return `${request.method} ${request.path} ${request.bodyHash ?? ''}`;
+}
+
+function isJson(headers: Record<string, string>): boolean {
+  return (headers['content-type'] || '').includes('application/json');
+}
@@ -0,0 +1,6 @@
+export { MockExtractServer, sampleFromSchema } from './mockServer';
+export type { MockError, MockErrorCode, MockFixture, MockRequest, MockServerOptions } from './mockServer';
+export { createFixtures, FIXTURES_MODE_ENV } from './fixtures';
+export type { FixtureFile, FixtureOptions, Fixtures, RecordedExchange } from './fixtures';
+export { MockBrowserServer } from './mockBrowser';
+export type { MockBrowserAction, MockBrowserServerOptions, MockBrowserSession, MockPage } from './mockBrowser';
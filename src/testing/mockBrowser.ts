@@ -0,0 +1,309 @@
+import type { PageContent, ScreenshotOptions } from '../browser/types';
+import { sleep } from '../core/retry';
+import type { BrowserOptions } from '../types';
+import { errorResponse, readBody } from './mockServer';
+import type { MockRequest } from './mockServer';
+
+/**
+ * A page the mock browser can navigate to
+ */
+export interface MockPage {
+  html: string;
+  /** HTTP status reported by `goto()` (default: 200) */
+  status?: number;
+  /** Defaults to the document's `<title>` */
+  title?: string;
+}
+
+/**
+ * A `click` or `type` performed in a mock browser session
+ */
+export interface MockBrowserAction {
+  sessionId: string;
+  type: 'click' | 'type';
+  selector: string;
+  /** URL of the page the action was performed on */
+  url: string;
+  text?: string;
+}
+
+/**
+ * A browser session as tracked by the mock server
+ */
+export interface MockBrowserSession {
+  id: string;
+  options: BrowserOptions;
+  url: string;
+  closed: boolean;
+}
+
+export interface MockBrowserServerOptions {
+  /** Delay applied to every response, in milliseconds */
+  latencyMs?: number;
+  /** Reject requests whose bearer token differs from this key */
+  apiKey?: string;
+  /** Base path requests are served under; defaults to `/v1` like the public API */
+  basePath?: string;
+  /**
+   * Answer `evaluate()` calls. Without it only `document.title`, `location.href`
+   * and `document.documentElement.outerHTML` are understood; anything else is `null`.
+   */
+  evaluate?: (expression: string, page: PageContent) => unknown;
+  /** Image returned by `screenshot()` (default: a 1x1 PNG) */
+  screenshot?: (page: PageContent, options: ScreenshotOptions) => Uint8Array;
+  /** Handles requests outside `/browsers`, e.g. `extractServer.handle` for `session.extract()` */
+  fallback?: (request: Request) => Response | Promise<Response>;
+}
+
+const NOT_FOUND_PAGE: MockPage = {
+  status: 404,
+  html: '<html><head><title>Not Found</title></head><body><h1>Not Found</h1></body></html>'
+};
+
+/** A transparent 1x1 PNG */
+const BLANK_PNG = Uint8Array.from(
+  atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='),
+  char => char.charCodeAt(0)
+);
+
+/**
+ * In-process stand-in for the browser API, implementing the protocol
+ * documented on `BrowserSession` over a set of static pages.
+ *
+ * Selectors are matched against the page HTML by tag, id, class and
+ * attribute; only the last compound of a selector with combinators is
+ * checked. Clicks and typing are recorded in `actions` and do not change
+ * the page.
+ *
+ * @example
+ * ```typescript
+ * const extractServer = new MockExtractServer();
+ * const browserServer = new MockBrowserServer({ fallback: extractServer.handle });
+ * browserServer.page('https://shop.test/', '<title>Shop</title><button id="buy">Buy</button>');
+ *
+ * const consoles = new Consoles({ apiKey: 'test', fetch: browserServer.fetch });
+ * const browser = await consoles.browser();
+ * await browser.goto('https://shop.test/');
+ * await browser.click('#buy');
+ * expect(browserServer.actions).toEqual([expect.objectContaining({ type: 'click', selector: '#buy' })]);
+ * ```
+ */
+export class MockBrowserServer {
+  /** Every request received, in order */
+  readonly requests: MockRequest[] = [];
+  /** Clicks and typing, in order */
+  readonly actions: MockBrowserAction[] = [];
+
+  #options: MockBrowserServerOptions;
+  #pages = new Map<string, MockPage>();
+  #sessions = new Map<string, MockBrowserSession>();
+  #nextId = 1;
+
+  constructor(options: MockBrowserServerOptions = {}) {
+    this.#options = options;
+  }
+
+  /**
+   * Serve a page at a URL. Unknown URLs load a 404 page.
+   */
+  page(url: string, page: string | MockPage): this {
+    this.#pages.set(url, typeof page === 'string' ? { html: page } : page);
+    return this;
+  }
+
+  /**
+   * Sessions created so far, including closed ones
+   */
+  get sessions(): MockBrowserSession[] {
+    return [...this.#sessions.values()];
+  }
+
+  /**
+   * Forget pages, sessions, actions and recorded requests
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.actions.length = 0;
+    this.#pages.clear();
+    this.#sessions.clear();
+    this.#nextId = 1;
+  }
+
+  /**
+   * Drop-in replacement for the global fetch
+   */
+  fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    return this.handle(new Request(input, init));
+  };
+
+  /**
+   * Standard fetch handler, so the mock can also be served over HTTP
+   */
+  handle = async (request: Request): Promise<Response> => {
+    const basePath = (this.#options.basePath ?? '/v1').replace(/\/+$/, '');
+    const pathname = new URL(request.url).pathname;
+    const path = pathname.startsWith(basePath) ? pathname.slice(basePath.length) || '/' : pathname;
+    const [collection, id, action, ...rest] = path.split('/').filter(Boolean);
+    if (collection !== 'browsers' || rest.length > 0) {
+      return this.#options.fallback?.(request)
+        ?? errorResponse({ status: 404, code: 'NOT_FOUND', message: `No route for ${request.method} ${pathname}` });
+    }
+
+    const mockRequest: MockRequest = {
+      method: request.method,
+      path,
+      headers: Object.fromEntries(request.headers),
+      body: await readBody(request)
+    };
+    this.requests.push(mockRequest);
+
+    const authorization = request.headers.get('authorization');
+    const expected = this.#options.apiKey;
+    if (!authorization?.startsWith('Bearer ') || (expected && authorization !== `Bearer ${expected}`)) {
+      return errorResponse({ status: 401, code: 'UNAUTHORIZED', message: 'Invalid API key' });
+    }
+    await sleep(this.#options.latencyMs ?? 0, request.signal);
+
+    if (!id) {
+      if (request.method !== 'POST') {
+        return errorResponse({ status: 405, code: 'INVALID_REQUEST', message: 'Method not allowed' });
+      }
+      const session: MockBrowserSession = {
+        id: `brw_mock_${this.#nextId++}`,
+        options: mockRequest.body ?? {},
+        url: 'about:blank',
+        closed: false
+      };
+      this.#sessions.set(session.id, session);
+      return Response.json({ id: session.id }, { status: 201 });
+    }
+
+    const session = this.#sessions.get(id);
+    if (!session || session.closed) {
+      return errorResponse({ status: 404, code: 'NOT_FOUND', message: `Browser session ${id} not found` });
+    }
+    return this.#action(session, request.method, action ?? '', mockRequest.body ?? {});
+  };
+
+  #action(session: MockBrowserSession, method: string, action: string, body: Record<string, any>): Response {
+    const page = this.#content(session);
+
+    switch (`${method} ${action}`) {
+      case 'DELETE ':
+        session.closed = true;
+        return new Response(null, { status: 204 });
+      case 'POST goto': {
+        session.url = body.url;
+        const target = this.#content(session);
+        return Response.json({ url: target.url, title: target.title, status: this.#page(session.url).status ?? 200 });
+      }
+      case 'GET content':
+        return Response.json(page);
+      case 'POST screenshot': {
+        if (body.selector && !matchesSelector(page.html, body.selector)) {
+          return selectorNotFound(body.selector);
+        }
+        const image = this.#options.screenshot?.(page, body) ?? BLANK_PNG;
+        return new Response(image as BodyInit, {
+          headers: { 'Content-Type': `image/${body.format === 'jpeg' ? 'jpeg' : 'png'}` }
+        });
+      }
+      case 'POST click':
+      case 'POST type': {
+        if (!matchesSelector(page.html, body.selector)) {
+          return selectorNotFound(body.selector);
+        }
+        this.actions.push({
+          sessionId: session.id,
+          type: action as 'click' | 'type',
+          selector: body.selector,
+          url: session.url,
+          ...(action === 'type' ? { text: body.text } : {})
+        });
+        return Response.json({});
+      }
+      case 'POST evaluate':
+        try {
+          return Response.json({ result: this.#evaluate(body.expression, page) ?? null });
+        } catch (error) {
+          return errorResponse({
+            status: 422,
+            code: 'INVALID_REQUEST',
+            message: `Evaluation failed: ${error instanceof Error ? error.message : String(error)}`
+          });
+        }
+    }
+    return errorResponse({ status: 404, code: 'NOT_FOUND', message: `No browser action ${method} ${action}` });
+  }
+
+  #page(url: string): MockPage {
+    return this.#pages.get(url) ?? (url === 'about:blank' ? { html: '<html><head></head><body></body></html>' } : NOT_FOUND_PAGE);
+  }
+
+  #content(session: MockBrowserSession): PageContent {
+    const page = this.#page(session.url);
+    const title = page.title ?? /<title[^>]*>([^<]*)<\/title>/i.exec(page.html)?.[1]?.trim() ?? '';
+    return { url: session.url, title, html: page.html };
+  }
+
+  #evaluate(expression: string, page: PageContent): unknown {
+    if (this.#options.evaluate) {
+      return this.#options.evaluate(expression, page);
+    }
+    switch (expression.trim()) {
+      case 'document.title':
+        return page.title;
+      case 'location.href':
+      case 'window.location.href':
+      case 'document.URL':
+        return page.url;
+      case 'document.documentElement.outerHTML':
+        return page.html;
+    }
+    return null;
+  }
+}
+
+/**
+ * Whether any element in the HTML matches a simple CSS selector
+ * (`tag`, `#id`, `.class`, `[attr]`, `[attr=value]` and combinations).
+ * With combinators, only the last compound selector is checked.
+ */
+function matchesSelector(html: string, selector: string): boolean {
+  const compound = selector.trim().split(/\s*[\s>+~]\s*/).pop() ?? '';
+  const tag = /^[a-zA-Z][\w-]*/.exec(compound)?.[0]?.toLowerCase();
+  const id = /#([\w-]+)/.exec(compound)?.[1];
+  const classes = [...compound.matchAll(/\.([\w-]+)/g)].map(match => match[1]);
+  const attributes = [...compound.matchAll(/\[([\w-]+)(?:=["']?([^"'\]]*)["']?)?\]/g)];
+
+  for (const [, name, rawAttributes] of html.matchAll(/<([a-zA-Z][\w-]*)([^>]*)>/g)) {
+    const element = parseAttributes(rawAttributes);
+    if (tag && name.toLowerCase() !== tag) {
+      continue;
+    }
+    if (id && element.id !== id) {
+      continue;
+    }
+    const elementClasses = (element.class ?? '').split(/\s+/);
+    if (classes.some(className => !elementClasses.includes(className))) {
+      continue;
+    }
+    if (attributes.some(([, key, value]) => !(key in element) || (value !== undefined && element[key] !== value))) {
+      continue;
+    }
+    return true;
+  }
+  return false;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, key, doubleQuoted, singleQuoted, bare] of raw.matchAll(/([\w-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g)) {
+    attributes[key.toLowerCase()] = doubleQuoted ?? singleQuoted ?? bare ?? '';
+  }
+  return attributes;
+}
+
+function selectorNotFound(selector: string): Response {
+  return errorResponse({ status: 404, code: 'NOT_FOUND', message: `No element matches selector ${selector}` });
+}
@@ -0,0 +1,400 @@
+import { sleep } from '../core/retry';
+import type { ExtractUsage } from '../extract/types';
+
+/**
+ * A request received by the mock server. `body` is parsed JSON for JSON
+ * requests and raw bytes for upload chunks.
+ */
+export interface MockRequest {
+  method: string;
+  /** Path below the API base, e.g. `/extract` or `/uploads/upl_mock_1/chunks/0` */
+  path: string;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+/**
+ * A canned extraction result
+ */
+export interface MockFixture {
+  /** Serve this fixture only to matching requests; defaults to every `/extract` request */
+  match?: (request: MockRequest) => boolean;
+  /** The result to return, or a function computing it from the request */
+  result: unknown | ((request: MockRequest) => unknown);
+  usage?: Partial<ExtractUsage>;
+  /** Number of times to serve this fixture; unlimited when omitted */
+  times?: number;
+  /** Delay before responding, overriding the server's latency */
+  latencyMs?: number;
+}
+
+/**
+ * Preset failures matching what the Extract API returns
+ */
+export type MockErrorCode =
+  | 'STORAGE_ERROR'
+  | 'TIMEOUT'
+  | 'RATE_LIMITED'
+  | 'UNAUTHORIZED'
+  | 'SERVER_ERROR'
+  | 'NETWORK_ERROR';
+
+/**
+ * A failure to inject. Starts from the preset for `code` when there is one.
+ */
+export interface MockError {
+  code?: MockErrorCode | (string & {});
+  status?: number;
+  message?: string;
+  /** Seconds the client should wait, sent in the body (or header, see below) */
+  retryAfter?: number;
+  /** Send `retryAfter` as a `Retry-After` header instead of in the body */
+  retryAfterHeader?: boolean;
+  /** Reject the fetch itself, as a dropped connection would */
+  network?: boolean;
+  /** On streamed requests, fail with an `error` event after the first delta */
+  midStream?: boolean;
+  /** Fail only matching requests; defaults to every `/extract` request */
+  match?: (request: MockRequest) => boolean;
+  /** Number of requests to fail; defaults to 1 */
+  times?: number;
+  /** Delay before failing, overriding the server's latency */
+  latencyMs?: number;
+}
+
+export interface MockServerOptions {
+  /** Delay applied to every response, in milliseconds */
+  latencyMs?: number;
+  /** Reject requests whose bearer token differs from this key */
+  apiKey?: string;
+  /** Base path requests are served under; defaults to `/v1` like the public API */
+  basePath?: string;
+  /** Characters of the serialized result per streamed `delta` event */
+  streamChunkSize?: number;
+}
+
+const ERROR_PRESETS: Record<MockErrorCode, Omit<MockError, 'code'>> = {
+  STORAGE_ERROR: { status: 503, message: 'R2 bucket is not available' },
+  TIMEOUT: { status: 408, message: 'Request timeout' },
+  RATE_LIMITED: { status: 429, message: 'Rate limit exceeded', retryAfter: 1 },
+  UNAUTHORIZED: { status: 401, message: 'Invalid API key' },
+  SERVER_ERROR: { status: 500, message: 'Internal server error' },
+  NETWORK_ERROR: { network: true, message: 'fetch failed' }
+};
+
+interface Queued<T> {
+  entry: T;
+  remaining: number;
+}
+
+interface MockUpload {
+  fileName?: string;
+  mimeType?: string;
+  chunkSize: number;
+  chunks: Map<number, number>;
+}
+
+/**
+ * In-process fake of the Extract API.
+ *
+ * Hand `server.fetch` to the client and every call is answered locally:
+ * extractions (plain and streamed), schema generation and chunked uploads.
+ * Results come from fixtures, or are sampled from the request's JSON Schema
+ * when no fixture matches. Errors are injected per request and consumed in
+ * order, so retry paths can be exercised deterministically.
+ *
+ * @example
+ * ```typescript
+ * const server = new MockExtractServer();
+ * server.fixture({ result: { title: 'Hello' } });
+ * server.fail('RATE_LIMITED');
+ *
+ * const consoles = new Consoles({ apiKey: 'test', fetch: server.fetch });
+ * await consoles.extract('...'); // retried once, then served the fixture
+ * ```
+ */
+export class MockExtractServer {
+  /** Every request received, in order */
+  readonly requests: MockRequest[] = [];
+
+  #options: MockServerOptions;
+  #fixtures: Queued<MockFixture>[] = [];
+  #errors: Queued<MockError>[] = [];
+  #uploads = new Map<string, MockUpload>();
+  #nextId = 1;
+
+  constructor(options: MockServerOptions = {}) {
+    this.#options = options;
+  }
+
+  /**
+   * Serve a result for matching extractions. Later fixtures take precedence.
+   */
+  fixture(fixture: MockFixture): this {
+    this.#fixtures.unshift({ entry: fixture, remaining: fixture.times ?? Infinity });
+    return this;
+  }
+
+  /**
+   * Fail upcoming requests with an API error or a network failure.
+   * Failures are consumed before fixtures, in the order they were added.
+   */
+  fail(error: MockErrorCode | MockError): this {
+    const spec = typeof error === 'string' ? { code: error } : error;
+    const preset = ERROR_PRESETS[spec.code as MockErrorCode];
+    this.#errors.push({ entry: { ...preset, ...spec }, remaining: spec.times ?? 1 });
+    return this;
+  }
+
+  /**
+   * Forget fixtures, pending failures, uploads and recorded requests
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.#fixtures = [];
+    this.#errors = [];
+    this.#uploads.clear();
+    this.#nextId = 1;
+  }
+
+  /**
+   * Drop-in replacement for the global fetch
+   */
+  fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    return this.handle(new Request(input, init));
+  };
+
+  /**
+   * Standard fetch handler, so the mock can also be served over HTTP
+   * (e.g. with `@hono/node-server`) for clients in another process
+   */
+  handle = async (request: Request): Promise<Response> => {
+    const basePath = (this.#options.basePath ?? '/v1').replace(/\/+$/, '');
+    const pathname = new URL(request.url).pathname;
+    const mockRequest: MockRequest = {
+      method: request.method,
+      path: pathname.startsWith(basePath) ? pathname.slice(basePath.length) || '/' : pathname,
+      headers: Object.fromEntries(request.headers),
+      body: await readBody(request)
+    };
+    this.requests.push(mockRequest);
+
+    const authorization = request.headers.get('authorization');
+    const expected = this.#options.apiKey;
+    if (!authorization?.startsWith('Bearer ') || (expected && authorization !== `Bearer ${expected}`)) {
+      return errorResponse({ ...ERROR_PRESETS.UNAUTHORIZED, code: 'UNAUTHORIZED' });
+    }
+
+    const error = take(this.#errors, entry => (entry.match ?? isExtract)(mockRequest));
+    await sleep(error?.latencyMs ?? this.#options.latencyMs ?? 0, request.signal);
+
+    if (error && !(error.midStream && wantsStream(request))) {
+      if (error.network) {
+        throw new TypeError(error.message ?? 'fetch failed');
+      }
+      return errorResponse(error);
+    }
+
+    if (mockRequest.path === '/extract' && request.method === 'POST') {
+      return this.#extract(mockRequest, request, error);
+    }
+    if (mockRequest.path.startsWith('/uploads')) {
+      return this.#upload(mockRequest);
+    }
+    return errorResponse({ status: 404, code: 'NOT_FOUND', message: `No route for ${request.method} ${pathname}` });
+  };
+
+  async #extract(mockRequest: MockRequest, request: Request, error?: MockError): Promise<Response> {
+    const body = mockRequest.body ?? {};
+    const fixture = take(this.#fixtures, entry => (entry.match ?? isExtract)(mockRequest));
+    if (fixture?.latencyMs !== undefined) {
+      await sleep(fixture.latencyMs, request.signal);
+    }
+
+    let result: unknown;
+    if (fixture) {
+      result = typeof fixture.result === 'function' ? fixture.result(mockRequest) : fixture.result;
+    } else if (body.type === 'generate_schema') {
+      result = { type: 'object', properties: {} };
+    } else {
+      result = sampleFromSchema(body.schema ?? {});
+    }
+
+    const response = {
+      id: `ext_mock_${this.#nextId++}`,
+      status: 'success',
+      result,
+      usage: mockUsage(fixture?.usage),
+      ...(body.type === 'generate_schema'
+        ? { schema: result }
+        : { input_type: body.type, schema: body.schema, prompt: body.prompt })
+    };
+
+    if (!wantsStream(request)) {
+      return Response.json(response);
+    }
+
+    const serialized = JSON.stringify(result);
+    const size = Math.max(1, this.#options.streamChunkSize ?? 16);
+    const events: string[] = [];
+    for (let offset = 0; offset < serialized.length; offset += size) {
+      events.push(sseEvent('delta', { delta: serialized.slice(offset, offset + size) }));
+      if (error) {
+        events.push(sseEvent('error', errorBody(error)));
+        break;
+      }
+    }
+    if (!error) {
+      events.push(sseEvent('done', response));
+    }
+    return new Response(events.join(''), {
+      headers: { 'Content-Type': 'text/event-stream' }
+    });
+  }
+
+  #upload(request: MockRequest): Response {
+    const [, , uploadId, action, index] = request.path.split('/');
+
+    if (!uploadId && request.method === 'POST') {
+      const id = `upl_mock_${this.#nextId++}`;
+      const chunkSize = request.body?.chunkSize ?? 50 * 1024 * 1024;
+      this.#uploads.set(id, {
+        fileName: request.body?.fileName,
+        mimeType: request.body?.mimeType,
+        chunkSize,
+        chunks: new Map()
+      });
+      return Response.json({ uploadId: id, chunkSize });
+    }
+
+    const upload = this.#uploads.get(uploadId);
+    if (!upload) {
+      return errorResponse({ status: 404, code: 'UPLOAD_NOT_FOUND', message: `Unknown upload ${uploadId}` });
+    }
+
+    if (!action && request.method === 'GET') {
+      return Response.json({ chunkSize: upload.chunkSize, uploadedChunks: [...upload.chunks.keys()] });
+    }
+    if (action === 'chunks' && request.method === 'PUT') {
+      upload.chunks.set(Number(index), (request.body as Uint8Array | undefined)?.byteLength ?? 0);
+      return Response.json({ received: true });
+    }
+    if (action === 'complete' && request.method === 'POST') {
+      let size = 0;
+      upload.chunks.forEach(bytes => size += bytes);
+      return Response.json({ uploadId, fileName: upload.fileName, mimeType: upload.mimeType, size });
+    }
+    return errorResponse({ status: 404, code: 'NOT_FOUND', message: `No route for ${request.method} ${request.path}` });
+  }
+}
+
+/**
+ * Build a plausible value for a JSON Schema: the first enum value or const,
+ * empty strings, zeros, `false`, empty arrays and fully populated objects
+ */
+export function sampleFromSchema(schema: Record<string, any>): unknown {
+  if (!schema || typeof schema !== 'object') {
+    return null;
+  }
+  if ('const' in schema) {
+    return schema.const;
+  }
+  if (Array.isArray(schema.enum)) {
+    return schema.enum[0];
+  }
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(variants) && variants.length > 0) {
+    return sampleFromSchema(variants[0]);
+  }
+  if (Array.isArray(schema.allOf)) {
+    return Object.assign({}, ...schema.allOf.map((part: Record<string, any>) => sampleFromSchema(part)));
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'string':
+      return '';
+    case 'number':
+    case 'integer':
+      return typeof schema.minimum === 'number' ? schema.minimum : 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    case 'array':
+      return typeof schema.minItems === 'number' && schema.items
+        ? Array.from({ length: schema.minItems }, () => sampleFromSchema(schema.items))
+        : [];
+    default:
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [key, sampleFromSchema(property as Record<string, any>)])
+      );
+  }
+}
+
+function isExtract(request: MockRequest): boolean {
+  return request.path === '/extract';
+}
+
+function wantsStream(request: Request): boolean {
+  return (request.headers.get('accept') || '').includes('text/event-stream');
+}
+
+/**
+ * Return the first queued entry that matches and count one use of it
+ */
+function take<T>(queue: Queued<T>[], matches: (entry: T) => boolean): T | undefined {
+  const index = queue.findIndex(item => item.remaining > 0 && matches(item.entry));
+  if (index === -1) {
+    return undefined;
+  }
+  const item = queue[index];
+  if (--item.remaining <= 0) {
+    queue.splice(index, 1);
+  }
+  return item.entry;
+}
+
+export async function readBody(request: Request): Promise<any> {
+  if (request.method === 'GET' || request.method === 'HEAD') {
+    return undefined;
+  }
+  const bytes = new Uint8Array(await request.arrayBuffer());
+  if ((request.headers.get('content-type') || '').includes('application/json')) {
+    return JSON.parse(new TextDecoder().decode(bytes));
+  }
+  return bytes;
+}
+
+function mockUsage(usage: Partial<ExtractUsage> = {}): ExtractUsage {
+  const input_tokens = usage.input_tokens ?? 100;
+  const output_tokens = usage.output_tokens ?? 50;
+  return {
+    input_tokens,
+    output_tokens,
+    total_tokens: usage.total_tokens ?? input_tokens + output_tokens,
+    input_cost: usage.input_cost ?? '0.0001',
+    output_cost: usage.output_cost ?? '0.0002',
+    total_cost: usage.total_cost ?? '0.0003'
+  };
+}
+
+function errorBody(error: MockError) {
+  return {
+    error: { message: error.message ?? 'API request failed', code: error.code },
+    status: error.status,
+    ...(error.retryAfter !== undefined && !error.retryAfterHeader ? { retryAfter: error.retryAfter } : {})
+  };
+}
+
+export function errorResponse(error: MockError): Response {
+  const headers: Record<string, string> = {};
+  if (error.retryAfter !== undefined && error.retryAfterHeader) {
+    headers['Retry-After'] = String(error.retryAfter);
+  }
+  return Response.json(errorBody(error), { status: error.status ?? 500, headers });
+}
+
+function sseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}